@@ -1,5 +1,13 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Compass, Type, Loader2, PanelLeft } from "lucide-react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { Compass, Type, Loader2, PanelLeft, Table2, X } from "lucide-react";
+import type { ALPHA_MODES, BitmapFontData } from "pixi.js";
 
 /** GitHub "Octocat" mark (lucide dropped its brand icons). */
 function GithubMark({ className }: { className?: string }) {
@@ -10,25 +18,68 @@ function GithubMark({ className }: { className?: string }) {
   );
 }
 
-import { Stage } from "@/pixi/stage";
+import { Stage, type CompareLayout } from "@/pixi/stage";
 import { PRESETS, type Preset } from "@/lib/presets";
-import { charsForFormat } from "@/lib/formats";
-import { parseDroppedFont, type FontEntry } from "@/lib/fonts";
-import { analyzeFont, missingChars, type FontReport } from "@/lib/validation";
+import { presetGlyphs } from "@/lib/glyphSet";
+import {
+  assignPage,
+  getAlphaMode,
+  parseDroppedFont,
+  restoreSavedFonts,
+  setAlphaMode,
+  unloadFont as unloadEntry,
+} from "@/lib/fonts";
+import { listFonts, subscribeFonts } from "@/lib/fontRegistry";
+import { forgetAllFonts, storeUsage, type StoreUsage } from "@/lib/fontStore";
+import {
+  analyzeFont,
+  collisionCheck,
+  bleedCheck,
+  padCheck,
+  missingChars,
+  simulateShift,
+  type FontReport,
+} from "@/lib/validation";
+import {
+  loadActiveProfileId,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles,
+  type RuleProfile,
+} from "@/lib/rules";
+import { analyzeBatch } from "@/lib/batch";
+import { diffReports } from "@/lib/fontDiff";
+import { analyzeInk, decodePages, type PagePixels } from "@/lib/inkAnalysis";
+import { analyzeAlpha } from "@/lib/alphaAnalysis";
+import type { SourceFile } from "@/lib/zip";
 import { runTour, runTourOnce } from "@/lib/tour";
 
 import { PresetLibrary } from "@/components/PresetLibrary";
 import { ControlsPanel } from "@/components/ControlsPanel";
 import { ValidationPanel } from "@/components/ValidationPanel";
 import { DropOverlay } from "@/components/DropOverlay";
+import { PageAssign } from "@/components/PageAssign";
+import { RulesPanel } from "@/components/RulesPanel";
+import { CompareMatrix } from "@/components/CompareMatrix";
+import { ComparePanel } from "@/components/ComparePanel";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { cn } from "@/lib/utils";
+import { cn, formatBytes } from "@/lib/utils";
 
 const DEFAULT_PRESET = PRESETS.find((p) => p.id === "big-pop") ?? PRESETS[0];
 
+/** Decoded atlas pages of one font, with the image files they came from. */
+interface DecodedAtlas {
+  files: (File | null)[];
+  data: BitmapFontData;
+  pages: (PagePixels | null)[];
+}
+
+const sameFiles = (a: (File | null)[], b: (File | null)[]) =>
+  a.length === b.length && a.every((f, i) => f === b[i]);
+
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const parentRef = useRef<HTMLDivElement>(null);
@@ -36,19 +87,33 @@ export default function App() {
   const pendingPlay = useRef(false);
 
   const [ready, setReady] = useState(false);
-  const [activeFont, setActiveFont] = useState<FontEntry | null>(null);
+  const fonts = useSyncExternalStore(subscribeFonts, listFonts);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [active, setActive] = useState<Preset>({ ...DEFAULT_PRESET });
   const [playing, setPlaying] = useState(false);
   const [currentText, setCurrentText] = useState("");
   const [showBounds, setShowBounds] = useState(false);
+  const [highlightBleed, setHighlightBleed] = useState(false);
   const [started, setStarted] = useState(false);
   const [presetsOpen, setPresetsOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [compareLayout, setCompareLayout] = useState<CompareLayout>("split");
   const [report, setReport] = useState<FontReport | null>(null);
+  const [usage, setUsage] = useState<StoreUsage | null>(null);
+  const [atlas, setAtlas] = useState<DecodedAtlas | null>(null);
+  const atlasRef = useRef<DecodedAtlas | null>(null);
+  const [alphaMode, setAlphaModeState] = useState<ALPHA_MODES>(getAlphaMode);
+  const [profiles, setProfiles] = useState<RuleProfile[]>(loadProfiles);
+  const [profileId, setProfileId] = useState(loadActiveProfileId);
   const [toast, setToast] = useState<{ kind: "ok" | "err"; msg: string } | null>(
     null
   );
 
+  const activeFont = fonts.find((f) => f.id === activeId) ?? null;
   const fontFamily = activeFont?.fontFamily ?? "";
+  // font B of the A/B pair - never the font already on A
+  const compareFont = fonts.find((f) => f.id === compareId && f.id !== activeId) ?? null;
 
   // ── stage lifecycle ─────────────────────────────────────────────
   useEffect(() => {
@@ -61,6 +126,12 @@ export default function App() {
       if (disposed) return;
       stage.winBox.onValue = (t) => setCurrentText(t);
       stage.winBox.onStateChange = (p) => setPlaying(p);
+      const restored = await restoreSavedFonts();
+      if (disposed) return;
+      if (restored.entries.length) setActiveId(restored.entries[0].id);
+      if (restored.failures.length) {
+        setToast({ kind: "err", msg: `Could not restore ${restored.failures.join("; ")}` });
+      }
       setReady(true);
       runTourOnce({ setPresets: setPresetsOpen });
     })();
@@ -72,28 +143,122 @@ export default function App() {
     };
   }, []);
 
+  // ── saved-font size readout (refreshed whenever the font list changes) ──
+  const refreshUsage = useCallback(() => {
+    storeUsage().then(setUsage, () => setUsage(null));
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [fonts, refreshUsage]);
+
+  // ── rule profiles (persisted in localStorage) ────────────────────
+  const profile = profiles.find((p) => p.id === profileId) ?? profiles[0];
+
+  const selectProfile = useCallback((id: string) => {
+    setProfileId(id);
+    saveActiveProfileId(id);
+  }, []);
+
+  const updateProfiles = useCallback((next: RuleProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  }, []);
+
+  const editProfile = useCallback(
+    (edited: RuleProfile) => updateProfiles(profiles.map((p) => (p.id === edited.id ? edited : p))),
+    [profiles, updateProfiles]
+  );
+
+  const duplicateProfile = useCallback(() => {
+    const copy: RuleProfile = {
+      ...JSON.parse(JSON.stringify(profile)),
+      id: `custom-${Date.now()}`,
+      name: `${profile.name} copy`,
+    };
+    updateProfiles([...profiles, copy]);
+    selectProfile(copy.id);
+  }, [profile, profiles, updateProfiles, selectProfile]);
+
+  const deleteProfile = useCallback(() => {
+    updateProfiles(profiles.filter((p) => p.id !== profile.id));
+    selectProfile(profiles[0].id);
+  }, [profile, profiles, updateProfiles, selectProfile]);
+
   // ── font selection -> wire font, compute report ──────────────────
+  // (activeFont is a new object when its pages are reassigned)
   useEffect(() => {
     if (!ready) return;
     stageRef.current?.winBox.setFont(fontFamily);
-    setReport(fontFamily ? analyzeFont(fontFamily) : null);
-  }, [ready, fontFamily]);
+    setReport(fontFamily ? analyzeFont(fontFamily, profile) : null);
+  }, [ready, fontFamily, activeFont, profile]);
+
+  // ── atlas ink + alpha mode: decode the active font's pages off the report path ──
+  // An alpha-mode rebuild hands back a new entry over the same image files, so
+  // the pixels are only decoded again when the files themselves change.
+  useEffect(() => {
+    const files = activeFont?.pages.map((p) => p.source?.file ?? null) ?? [];
+    const prev = atlasRef.current;
+    if (activeFont && prev?.data === activeFont.data && sameFiles(prev.files, files)) return;
+    atlasRef.current = null;
+    setAtlas(null);
+    if (!activeFont) return;
+    let live = true;
+    decodePages(activeFont.pages).then(
+      (pages) => {
+        if (!live) return;
+        atlasRef.current = { files, data: activeFont.data, pages };
+        setAtlas(atlasRef.current);
+      },
+      (e) => {
+        if (live) setToast({ kind: "err", msg: `Could not analyse the atlas pixels: ${(e as Error).message}` });
+      }
+    );
+    return () => {
+      live = false;
+    };
+  }, [activeFont]);
+
+  const ink = useMemo(() => (atlas ? analyzeInk(atlas.data, atlas.pages) : null), [atlas]);
+  const alpha = useMemo(
+    () => (atlas ? analyzeAlpha(atlas.data, atlas.pages, alphaMode) : null),
+    [atlas, alphaMode]
+  );
 
-  // ── active preset -> load into the win box (+ optional autoplay) ──
+  // ── A/B: font B on the second win box + stage layout ──────────────
   useEffect(() => {
     if (!ready) return;
-    const wb = stageRef.current?.winBox;
-    if (!wb) return;
-    wb.load(active);
+    const stage = stageRef.current;
+    if (!stage) return;
+    stage.winBoxB.setFont(compareFont?.fontFamily ?? "");
+    stage.setCompare(compareFont ? compareLayout : "off");
+  }, [ready, compareFont, compareLayout]);
+
+  const reportB = useMemo(
+    () => (compareFont ? analyzeFont(compareFont.fontFamily, profile) : null),
+    [compareFont, profile]
+  );
+
+  const diff = useMemo(
+    () => (report?.found && reportB?.found ? diffReports(report, reportB) : null),
+    [report, reportB]
+  );
+
+  // ── active preset -> load into the win boxes (+ optional autoplay) ─
+  useEffect(() => {
+    if (!ready) return;
+    const stage = stageRef.current;
+    if (!stage) return;
+    stage.load(active);
     if (pendingPlay.current) {
       pendingPlay.current = false;
-      wb.play();
+      stage.play();
     }
   }, [ready, active, fontFamily]);
 
   // ── glyph bounds toggle ─────────────────────────────────────────
   useEffect(() => {
-    stageRef.current?.winBox.setShowBounds(showBounds);
+    stageRef.current?.setShowBounds(showBounds);
   }, [showBounds]);
 
   // ── auto-dismiss toast ──────────────────────────────────────────
@@ -103,10 +268,50 @@ export default function App() {
     return () => clearTimeout(t);
   }, [toast]);
 
+  // exactly the glyphs the preset's run can show, each with a string that uses it
+  const needs = useMemo(() => presetGlyphs(active), [active]);
+
   const missing = useMemo(() => {
     if (!fontFamily) return [];
-    return missingChars(fontFamily, charsForFormat(active.format));
-  }, [fontFamily, active.format, report]);
+    const lacking = new Set(missingChars(fontFamily, needs.map((g) => g.char)));
+    return needs.filter((g) => lacking.has(g.char));
+  }, [fontFamily, needs, report]);
+
+  const shift = useMemo(() => {
+    if (!fontFamily) return null;
+    return simulateShift(fontFamily, active);
+  }, [fontFamily, active, report]);
+
+  const collision = useMemo(() => {
+    if (!fontFamily) return null;
+    return collisionCheck(fontFamily, active);
+  }, [fontFamily, active, report]);
+
+  const bleed = useMemo(() => {
+    if (!fontFamily) return null;
+    return bleedCheck(fontFamily, active);
+  }, [fontFamily, active, report]);
+
+  const pad = useMemo(() => {
+    if (!fontFamily) return null;
+    return padCheck(fontFamily, active, profile.rules.mono.threshold);
+  }, [fontFamily, active, report, profile]);
+
+  // ── bleed offenders outlined on the stage ───────────────────────
+  useEffect(() => {
+    stageRef.current?.setHighlight(highlightBleed && bleed ? bleed.offenders : []);
+  }, [ready, highlightBleed, bleed]);
+
+  // ── batch comparison (only analysed while the matrix is open) ─────
+  const batch = useMemo(
+    () => (compareOpen ? analyzeBatch(fonts, profile) : []),
+    [compareOpen, fonts, profile]
+  );
+
+  const openFromMatrix = useCallback((id: string) => {
+    setActiveId(id);
+    setCompareOpen(false);
+  }, []);
 
   const selectPreset = useCallback((p: Preset) => {
     pendingPlay.current = true;
@@ -116,33 +321,93 @@ export default function App() {
 
   const play = useCallback(() => {
     setStarted(true);
-    stageRef.current?.winBox.play();
+    stageRef.current?.play();
   }, []);
 
   const onChange = useCallback((patch: Partial<Preset>) => {
     setActive((prev) => ({ ...prev, ...patch }));
   }, []);
 
-  const onFiles = useCallback(async (files: File[]) => {
+  const onFiles = useCallback(async (files: SourceFile[]) => {
+    try {
+      const { entries, failures } = await parseDroppedFont(files);
+      setActiveId(entries[0].id);
+      // a batch drop goes straight to the comparison
+      if (entries.length > 1) setCompareOpen(true);
+      const loaded =
+        entries.length === 1
+          ? `Loaded ${entries[0].label}`
+          : `Loaded ${entries.length} fonts: ${entries.map((e) => e.label).join(", ")}`;
+      // saving is best-effort (private mode, quota) - say which fonts a reload will lose
+      const unsaved = entries.filter((e) => !e.storeId);
+      const problems = [
+        ...(failures.length ? [`Skipped ${failures.join("; ")}.`] : []),
+        ...(unsaved.length ? [`Could not save ${unsaved.map((e) => e.label).join(", ")} - gone after a reload.`] : []),
+      ];
+      setToast(problems.length ? { kind: "err", msg: `${loaded}. ${problems.join(" ")}` } : { kind: "ok", msg: loaded });
+    } catch (e) {
+      setToast({ kind: "err", msg: (e as Error).message });
+    }
+  }, []);
+
+  const onDropError = useCallback((e: Error) => {
+    setToast({ kind: "err", msg: `Could not read the drop: ${e.message}` });
+  }, []);
+
+  const unloadFont = useCallback(
+    async (id: string) => {
+      const entry = fonts.find((f) => f.id === id);
+      if (!entry) return;
+      const next = fonts.find((f) => f.id !== id) ?? null;
+      if (id === activeId) setActiveId(next?.id ?? null);
+      await unloadEntry(entry);
+    },
+    [fonts, activeId]
+  );
+
+  const onAssignPage = useCallback(
+    async (pageId: number, imagePath: string) => {
+      if (!activeFont) return;
+      try {
+        await assignPage(activeFont, pageId, imagePath);
+      } catch (e) {
+        setToast({ kind: "err", msg: (e as Error).message });
+      }
+    },
+    [activeFont]
+  );
+
+  const onAlphaMode = useCallback(async (mode: ALPHA_MODES) => {
     try {
-      const entry = await parseDroppedFont(files);
-      setActiveFont(entry);
-      setToast({ kind: "ok", msg: `Loaded ${entry.label}` });
+      await setAlphaMode(mode);
     } catch (e) {
       setToast({ kind: "err", msg: (e as Error).message });
     }
+    // follow the mode the fonts were actually rebuilt with
+    setAlphaModeState(getAlphaMode());
   }, []);
 
+  const forgetSaved = useCallback(async () => {
+    await forgetAllFonts().catch(() => undefined);
+    refreshUsage();
+  }, [refreshUsage]);
+
   const startTour = useCallback(
     () => runTour({ setPresets: setPresetsOpen }),
     []
   );
 
-  const wb = () => stageRef.current?.winBox;
-
   return (
     <TooltipProvider delayDuration={200}>
-      <DropOverlay onFiles={onFiles} />
+      <DropOverlay onFiles={onFiles} onError={onDropError} />
+      {compareOpen && (
+        <CompareMatrix
+          rows={batch}
+          activeId={activeId}
+          onOpen={openFromMatrix}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
 
       <div className="flex h-full flex-col">
         {/* ── header ─────────────────────────────────────────────── */}
@@ -152,6 +417,14 @@ export default function App() {
             <span className="text-sm font-semibold">Bitmap Font Benchmark</span>
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCompareOpen(true)}
+              disabled={fonts.length === 0}
+            >
+              <Table2 className="size-4" /> Compare
+            </Button>
             <Button id="tour-guide-btn" variant="outline" size="sm" onClick={startTour}>
               <Compass className="size-4" /> Guide
             </Button>
@@ -185,7 +458,7 @@ export default function App() {
             {ready && !fontFamily && (
               <div className="pointer-events-none absolute inset-x-0 bottom-14 flex flex-col items-center gap-1.5 px-6 text-center">
                 <p className="text-base font-medium text-foreground/85">
-                  Drop a .fnt / .xml + its page image here to begin.
+                  Drop a .fnt / .xml / .json + its page image (or a folder / .zip of fonts) here to begin.
                 </p>
                 <p className="text-xs text-muted-foreground">
                   No fonts are bundled. This bench validates the bitmap font you
@@ -214,19 +487,51 @@ export default function App() {
                   onChange={onChange}
                   playing={playing}
                   onPlay={play}
-                  onStop={() => wb()?.stop()}
-                  onReset={() => wb()?.reset()}
+                  onStop={() => stageRef.current?.stop()}
+                  onReset={() => stageRef.current?.reset()}
                   showBounds={showBounds}
                   onToggleBounds={setShowBounds}
+                  highlightBleed={highlightBleed}
+                  onToggleBleed={setHighlightBleed}
+                  alphaMode={alphaMode}
+                  onAlphaMode={onAlphaMode}
                   currentText={currentText}
                 />
               </div>
               <Separator />
+              <ComparePanel
+                fonts={fonts}
+                activeId={activeId}
+                compareId={compareFont?.id ?? null}
+                layout={compareLayout}
+                onCompareFont={setCompareId}
+                onLayout={setCompareLayout}
+                diff={diff}
+              />
+              <Separator />
+              <RulesPanel
+                profiles={profiles}
+                profile={profile}
+                onSelect={selectProfile}
+                onChange={editProfile}
+                onDuplicate={duplicateProfile}
+                onDelete={deleteProfile}
+              />
+              <Separator />
               <div id="tour-validation">
                 <div className="px-4 pt-4 text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
                   Validation
                 </div>
-                <ValidationPanel report={report} missing={missing} />
+                <ValidationPanel
+                  report={report}
+                  missing={missing}
+                  shift={shift}
+                  collision={collision}
+                  ink={ink}
+                  bleed={bleed}
+                  alpha={alpha}
+                  pad={pad}
+                />
               </div>
             </ScrollArea>
           </aside>
@@ -261,12 +566,55 @@ export default function App() {
                   <p className="text-[9.5px] leading-snug text-muted-foreground">
                     {activeFont.description}
                   </p>
+                  <div className="space-y-0.5 pt-1">
+                    {fonts.map((f) => (
+                      <div
+                        key={f.id}
+                        className={cn(
+                          "flex items-center gap-1 rounded-md border pl-2 transition-colors",
+                          f.id === activeFont.id
+                            ? "border-primary/40 bg-secondary"
+                            : "border-transparent hover:border-border hover:bg-secondary/40"
+                        )}
+                      >
+                        <button
+                          onClick={() => setActiveId(f.id)}
+                          className="min-w-0 flex-1 truncate py-1 text-left text-[11px]"
+                        >
+                          {f.label}
+                        </button>
+                        <button
+                          onClick={() => unloadFont(f.id)}
+                          title={`Unload and forget ${f.label}`}
+                          className="p-1 text-muted-foreground hover:text-foreground"
+                        >
+                          <X className="size-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <PageAssign entry={activeFont} onAssign={onAssignPage} />
                 </>
               ) : (
                 <p className="text-[9.5px] leading-snug text-muted-foreground">
-                  No font loaded. Drop a .fnt / .xml + its page image anywhere.
+                  No font loaded. Drop a .fnt / .xml / .json + its page image (or a .zip) anywhere.
                 </p>
               )}
+              {usage && usage.count > 0 && (
+                <div className="flex items-center justify-between pt-1 text-[9.5px] text-muted-foreground">
+                  <span>
+                    Saved in browser: {usage.count} font{usage.count === 1 ? "" : "s"} |{" "}
+                    {formatBytes(usage.bytes)}
+                  </span>
+                  <button
+                    onClick={forgetSaved}
+                    title="Clear saved fonts (loaded ones stay until reload)"
+                    className="underline-offset-2 hover:text-foreground hover:underline"
+                  >
+                    Forget
+                  </button>
+                </div>
+              )}
             </div>
             <Separator />
             <ScrollArea className="min-h-0 flex-1">
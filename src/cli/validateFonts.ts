@@ -0,0 +1,330 @@
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import type { BitmapFontData } from "pixi.js";
+import { bitmapFontBinaryParser } from "@/lib/bmfontBinary";
+import { bitmapFontJSONParser } from "@/lib/bmfontJson";
+import { bitmapFontMarkupParser } from "@/lib/bmfontMarkup";
+import { lintDescriptor, readDescriptorFacts, type PageSize } from "@/lib/descriptorLint";
+import {
+  buildReport,
+  charsMissing,
+  metricsFromData,
+  pageFindings,
+  type FontReport,
+} from "@/lib/fontReport";
+import {
+  FORMAT_META,
+  charsForFormat,
+  glyphName,
+  localeFormatter,
+  type FormatKind,
+  type FormatOptions,
+} from "@/lib/formats";
+import { parseTemplate } from "@/lib/formatTemplate";
+import { presetGlyphs } from "@/lib/glyphSet";
+import { DEFAULT_ODOMETER, checkPad, type OdometerFormat } from "@/lib/odometer";
+import { readImageSize } from "@/lib/imageSize";
+import { resolvePages } from "@/lib/pages";
+import { PRESETS } from "@/lib/presets";
+import { BUILTIN_PROFILES, DEFAULT_PROFILE, type RuleProfile } from "@/lib/rules";
+import type { SourceFile } from "@/lib/zip";
+
+/**
+ * Headless font validation for asset pipelines: reads descriptors (and their
+ * page images) from disk, builds the same report as the app and checks each
+ * chosen preset / format against it. Exits 1 when any target cannot be
+ * rendered or will jump, 2 on bad arguments or unreadable input.
+ *
+ *   npm run validate -- assets/fonts --format comma --format currency
+ *   npm run validate -- assets/fonts --format locale:fr-FR:EUR --format locale:hi-IN
+ *   npm run validate -- gold.fnt --preset cur-usd --profile strict-cash --json
+ */
+
+const USAGE = `Usage: validate <descriptor|dir>... [options]
+
+  --preset <id>       check a preset (repeatable)
+  --category <name>   check every preset in a category (repeatable)
+  --format <kind>     check a format (repeatable); locale:<tag>[:<currency>]
+                      checks an Intl format, e.g. locale:fr-FR:EUR,
+                      money:<code>[:iso] a currency, e.g. money:JPY,
+                      odometer:<cells>[:<pad>|space] fixed cells, e.g. odometer:7:_, and
+                      template:<template> a custom one, e.g. "template:{000000}"
+  --profile <id|file> rule profile: ${BUILTIN_PROFILES.map((p) => p.id).join(", ")} or a .json file
+  --no-pages          skip page images (descriptor-only checks)
+  --json              print JSON instead of a summary
+
+With no --preset/--category/--format, every preset is checked.`;
+
+const DESCRIPTOR_RE = /\.(fnt|xml|json)$/i;
+const IMAGE_RE = /\.(png|jpe?g|webp)$/i;
+
+interface Target {
+  kind: "preset" | "format";
+  id: string;
+  /** a preset's exact glyphs (presetGlyphs), or everything a format can print. */
+  glyphs: string[];
+  /** an odometer's pad glyph, checked against the digit advance at `fontSize` (default: authored size). */
+  pad?: { odometer: OdometerFormat; fontSize?: number };
+  /** instant presets never tick, so digit jitter cannot show. */
+  ticks: boolean;
+}
+
+interface TargetResult {
+  kind: Target["kind"];
+  id: string;
+  missing: string[];
+  willJump: boolean;
+  /** why the odometer pad drifts from the digits, if it does. */
+  padDrift: string | null;
+  ok: boolean;
+}
+
+interface FileResult {
+  file: string;
+  report: FontReport;
+  targets: TargetResult[];
+  ok: boolean;
+}
+
+class UsageError extends Error {}
+
+function decode(buffer: ArrayBuffer): BitmapFontData {
+  if (bitmapFontBinaryParser.test(buffer)) return bitmapFontBinaryParser.parse(buffer);
+  const raw = new TextDecoder().decode(buffer);
+  if (bitmapFontMarkupParser.test(raw)) return bitmapFontMarkupParser.parse(raw);
+  if (bitmapFontJSONParser.test(raw)) return bitmapFontJSONParser.parse(raw);
+  throw new Error("Unrecognised bitmap-font descriptor format.");
+}
+
+function readBuffer(path: string): ArrayBuffer {
+  const bytes = readFileSync(path);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/** Descriptor files named on the command line, directories expanded (recursively). */
+function collectDescriptors(inputs: string[]): string[] {
+  const out: string[] = [];
+  for (const input of inputs) {
+    if (!existsSync(input)) throw new UsageError(`No such file or directory: ${input}`);
+    if (statSync(input).isDirectory()) {
+      const found = readdirSync(input, { recursive: true, encoding: "utf8" })
+        .filter((p) => DESCRIPTOR_RE.test(p))
+        .sort()
+        .map((p) => join(input, p));
+      if (!found.length) throw new UsageError(`No descriptors found in ${input}`);
+      out.push(...found);
+    } else {
+      out.push(input);
+    }
+  }
+  return out;
+}
+
+/**
+ * Candidate images for a descriptor, as paths relative to its folder: every
+ * image beside it, plus declared pages that live in a subfolder.
+ */
+function pageCandidates(descriptor: string, data: BitmapFontData): SourceFile[] {
+  const dir = dirname(descriptor);
+  const paths = new Set(readdirSync(dir).filter((p) => IMAGE_RE.test(p)));
+  for (const page of data.pages) {
+    const rel = page.file.replace(/\\/g, "/");
+    if (!rel.split("/").includes("..") && existsSync(join(dir, rel))) paths.add(rel);
+  }
+  return [...paths].map((path) => ({
+    path,
+    file: new File([readFileSync(join(dir, path))], basename(path)),
+  }));
+}
+
+async function validateFile(
+  descriptor: string,
+  profile: RuleProfile,
+  targets: Target[],
+  withPages: boolean
+): Promise<FileResult> {
+  const buffer = readBuffer(descriptor);
+  const data = decode(buffer);
+  const facts = readDescriptorFacts(buffer, bitmapFontBinaryParser.test(buffer));
+
+  let pages: FontReport["pages"] = [];
+  let sizes: (PageSize | null)[] = data.pages.map(() => null);
+  if (withPages) {
+    const matches = resolvePages(basename(descriptor), data.pages, pageCandidates(descriptor, data));
+    // a folder on disk often holds other fonts' atlases too, so unused images are not reported
+    pages = pageFindings(matches, []);
+    sizes = await Promise.all(
+      matches.map(async (m) => (m.source ? readImageSize(new Uint8Array(await m.source.file.arrayBuffer())) : null))
+    );
+  }
+
+  const metrics = metricsFromData(data);
+  const report = buildReport(
+    data.fontFamily || basename(descriptor, extname(descriptor)),
+    metrics,
+    { pages, descriptor: lintDescriptor(data, facts, sizes) },
+    profile
+  );
+
+  const padTolerance = profile.rules.mono.threshold;
+  const results = targets.map((t): TargetResult => {
+    const missing = charsMissing(metrics, t.glyphs);
+    const willJump = t.ticks && report.jump.willJump;
+    const padDrift = t.pad
+      ? (checkPad(metrics, t.pad.odometer, t.pad.fontSize ?? metrics.size, padTolerance).findings.find(
+          (f) => f.id === "pad-advance"
+        )?.message ?? null)
+      : null;
+    return { kind: t.kind, id: t.id, missing, willJump, padDrift, ok: missing.length === 0 && !willJump && !padDrift };
+  });
+  return { file: descriptor, report, targets: results, ok: results.every((r) => r.ok) };
+}
+
+function loadProfile(arg: string | undefined): RuleProfile {
+  if (!arg) return DEFAULT_PROFILE;
+  const builtin = BUILTIN_PROFILES.find((p) => p.id === arg);
+  if (builtin) return builtin;
+  if (!existsSync(arg)) throw new UsageError(`Unknown profile "${arg}"`);
+  const saved = JSON.parse(readFileSync(arg, "utf8")) as Partial<RuleProfile>;
+  return { ...DEFAULT_PROFILE, ...saved, rules: { ...DEFAULT_PROFILE.rules, ...saved.rules } };
+}
+
+function pickTargets(presets: string[], categories: string[], formats: string[]): Target[] {
+  const out: Target[] = [];
+  const addPreset = (p: (typeof PRESETS)[number]) =>
+    out.push({
+      kind: "preset",
+      id: p.id,
+      glyphs: presetGlyphs(p).map((g) => g.char),
+      pad: p.format === "odometer" ? { odometer: p.odometer ?? DEFAULT_ODOMETER, fontSize: p.fontSize } : undefined,
+      ticks: p.counter !== "instant" && p.duration > 0,
+    });
+
+  for (const id of presets) {
+    const p = PRESETS.find((x) => x.id === id);
+    if (!p) throw new UsageError(`Unknown preset "${id}"`);
+    addPreset(p);
+  }
+  for (const cat of categories) {
+    const inCat = PRESETS.filter((p) => p.category.toLowerCase() === cat.toLowerCase());
+    if (!inCat.length) throw new UsageError(`Unknown category "${cat}"`);
+    inCat.forEach(addPreset);
+  }
+  for (const arg of formats) {
+    const [kind, ...rest] = arg.split(":");
+    if (!(kind in FORMAT_META)) throw new UsageError(`Unknown format "${arg}"`);
+    const options: FormatOptions = {};
+    if (kind === "locale" && rest.length) {
+      options.locale = { locale: rest[0], currency: rest[1] };
+      if (!localeFormatter(options.locale)) throw new UsageError(`Invalid locale format "${arg}"`);
+    }
+    if (kind === "money" && rest.length) {
+      if (rest[1] && rest[1] !== "iso") throw new UsageError(`Invalid money format "${arg}" - use money:<code>[:iso]`);
+      options.money = { code: rest[0].toUpperCase(), iso: rest[1] === "iso" };
+    }
+    if (kind === "odometer" && rest.length) {
+      const digits = Number(rest[0]);
+      const pad = rest[1] === "space" ? " " : (rest[1] ?? DEFAULT_ODOMETER.pad);
+      if (!Number.isInteger(digits) || digits < 1 || [...pad].length !== 1) {
+        throw new UsageError(`Invalid odometer format "${arg}" - use odometer:<cells>[:<pad>|space]`);
+      }
+      options.odometer = { digits, pad };
+    }
+    if (kind === "template" && rest.length) {
+      options.template = rest.join(":");
+      try {
+        parseTemplate(options.template);
+      } catch (e) {
+        throw new UsageError(`Invalid template "${options.template}": ${(e as Error).message}`);
+      }
+    }
+    out.push({
+      kind: "format",
+      id: arg,
+      glyphs: charsForFormat(kind as FormatKind, options),
+      pad: kind === "odometer" ? { odometer: options.odometer ?? DEFAULT_ODOMETER } : undefined,
+      ticks: true,
+    });
+  }
+  if (!out.length) PRESETS.forEach(addPreset);
+  return out;
+}
+
+const show = (chars: string[]) =>
+  chars.map((c) => (glyphName(c) === c ? `'${c}'` : glyphName(c))).join(", ");
+
+function printSummary(results: FileResult[]) {
+  for (const { file, report, targets, ok } of results) {
+    const { jump, vertical } = report;
+    console.log(`${ok ? "PASS" : "FAIL"}  ${file}`);
+    console.log(
+      `      ${report.fontFamily}, ${report.glyphCount} glyphs, line ${report.lineHeight} | ` +
+        `${report.profile}: ${report.verdict} (${report.score})`
+    );
+    if (!report.canTick) console.log(`      missing digits: ${show(report.missingDigits)}`);
+    if (jump.willJump) {
+      console.log(
+        `      will jump +/-${(jump.jumpPx / 2).toFixed(1)}px` +
+          (jump.widestPair ? ` - ${jump.widestPair}` : "") +
+          (jump.worstKernedPair ? ` - kerning ${jump.worstKernedPair.pair} ${jump.worstKernedPair.amount}` : "")
+      );
+    }
+    if (vertical.willBounce) console.log(`      baseline bounces by ${vertical.baselineSpread}px - worst ${vertical.worstDigit}`);
+    for (const r of report.rules.filter((r) => !r.passed)) {
+      console.log(`      [${r.severity}] ${r.label}: ${r.detail}`);
+    }
+    for (const f of [...report.pages, ...report.descriptor]) console.log(`      [${f.severity}] ${f.message}`);
+
+    const failed = targets.filter((t) => !t.ok);
+    console.log(`      ${targets.length - failed.length}/${targets.length} targets OK`);
+    for (const t of failed) {
+      const why = [t.missing.length ? `missing ${show(t.missing)}` : "", t.willJump ? "will jump" : "", t.padDrift ?? ""]
+        .filter(Boolean)
+        .join(", ");
+      console.log(`        ${t.kind} ${t.id}: ${why}`);
+    }
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      preset: { type: "string", multiple: true, default: [] },
+      category: { type: "string", multiple: true, default: [] },
+      format: { type: "string", multiple: true, default: [] },
+      profile: { type: "string" },
+      "no-pages": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help || !positionals.length) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const profile = loadProfile(values.profile);
+  const targets = pickTargets(values.preset, values.category, values.format);
+  const results: FileResult[] = [];
+  for (const file of collectDescriptors(positionals)) {
+    try {
+      results.push(await validateFile(file, profile, targets, !values["no-pages"]));
+    } catch (e) {
+      throw new Error(`${file}: ${(e as Error).message}`);
+    }
+  }
+
+  if (values.json) console.log(JSON.stringify(results, null, 2));
+  else printSummary(results);
+  return results.every((r) => r.ok) ? 0 : 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : (e as Error).message);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,151 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, Check, Play, X } from "lucide-react";
+import { FORMAT_KINDS, sortRows, type BatchRow, type SortKey } from "@/lib/batch";
+import { FORMAT_META } from "@/lib/formats";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+
+const show = (chars: string[]) => chars.map((c) => (c === " " ? "SP" : c)).join(" ");
+
+const VERDICT_TEXT = {
+  pass: "text-emerald-400",
+  warn: "text-amber-300",
+  fail: "text-red-400",
+};
+
+type SortState = { key: SortKey; desc: boolean };
+
+function SortHeader({
+  k,
+  title,
+  sort,
+  onSort,
+  children,
+}: {
+  k: SortKey;
+  title?: string;
+  sort: SortState;
+  onSort: (next: SortState) => void;
+  children: ReactNode;
+}) {
+  const current = sort.key === k;
+  return (
+    <th className="whitespace-nowrap px-2 py-1.5 text-left font-medium" title={title}>
+      <button
+        // text sorts A-Z first, figures largest first
+        onClick={() => onSort({ key: k, desc: current ? !sort.desc : k !== "label" })}
+        className={cn(
+          "flex items-center gap-1 hover:text-foreground",
+          current ? "text-foreground" : "text-muted-foreground"
+        )}
+      >
+        {children}
+        {current && (sort.desc ? <ArrowDown className="size-3" /> : <ArrowUp className="size-3" />)}
+      </button>
+    </th>
+  );
+}
+
+/**
+ * One row per loaded font: the figures that decide between candidates, every
+ * column sortable, and a button to put the font on the stage.
+ */
+export function CompareMatrix({
+  rows,
+  activeId,
+  onOpen,
+  onClose,
+}: {
+  rows: BatchRow[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [sort, setSort] = useState<SortState>({ key: "score", desc: true });
+  const sorted = useMemo(() => sortRows(rows, sort.key, sort.desc), [rows, sort]);
+
+  const sortProps = { sort, onSort: setSort };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-background/95 backdrop-blur">
+      <div className="flex h-12 shrink-0 items-center justify-between border-b border-border px-4">
+        <span className="text-sm font-semibold">Compare {rows.length} fonts</span>
+        <Button variant="ghost" size="icon" onClick={onClose} title="Close">
+          <X className="size-4" />
+        </Button>
+      </div>
+      <ScrollArea className="min-h-0 flex-1">
+        <table className="w-full text-[11px] tabular-nums">
+          <thead className="sticky top-0 border-b border-border bg-background">
+            <tr>
+              <SortHeader {...sortProps} k="label">Font</SortHeader>
+              <SortHeader {...sortProps} k="score">Score</SortHeader>
+              <SortHeader {...sortProps} k="canTick">0-9</SortHeader>
+              <SortHeader {...sortProps} k="jump" title="worst-case tick-up jump (advance + kerning spread), font px">
+                Jump px
+              </SortHeader>
+              <SortHeader {...sortProps} k="baseline" title="spread of digit bottoms, font px">
+                Baseline
+              </SortHeader>
+              <SortHeader {...sortProps} k="glyphs">Glyphs</SortHeader>
+              {FORMAT_KINDS.map((kind) => (
+                <SortHeader {...sortProps} key={kind} k={kind} title={`Missing glyphs for ${FORMAT_META[kind].label}`}>
+                  {FORMAT_META[kind].sample}
+                </SortHeader>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(({ id, label, report, missing }) => (
+              <tr
+                key={id}
+                className={cn("border-b border-border/60", id === activeId && "bg-secondary/40")}
+              >
+                <td className="max-w-48 truncate px-2 py-1.5 font-medium" title={label}>
+                  {label}
+                </td>
+                <td className={cn("px-2 py-1.5", VERDICT_TEXT[report.verdict])}>
+                  {report.score} {report.verdict}
+                </td>
+                <td className="px-2 py-1.5">
+                  {report.canTick ? (
+                    <Check className="size-3.5 text-emerald-400" />
+                  ) : (
+                    <span className="text-red-400" title={`missing ${show(report.missingDigits)}`}>
+                      {report.missingDigits.length} missing
+                    </span>
+                  )}
+                </td>
+                <td className={cn("px-2 py-1.5", report.jump.willJump ? "text-amber-300" : "text-emerald-400")}>
+                  {report.jump.jumpPx}
+                </td>
+                <td className={cn("px-2 py-1.5", report.vertical.willBounce ? "text-amber-300" : "text-emerald-400")}>
+                  {report.vertical.baselineSpread}
+                </td>
+                <td className="px-2 py-1.5">{report.glyphCount}</td>
+                {FORMAT_KINDS.map((kind) => (
+                  <td key={kind} className="px-2 py-1.5">
+                    {missing[kind].length === 0 ? (
+                      <Check className="size-3.5 text-emerald-400" />
+                    ) : (
+                      <span className="text-red-400" title={`missing ${show(missing[kind])}`}>
+                        -{missing[kind].length}
+                      </span>
+                    )}
+                  </td>
+                ))}
+                <td className="px-2 py-1.5 text-right">
+                  <Button variant="outline" size="sm" onClick={() => onOpen(id)}>
+                    <Play className="size-3" /> Open
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </ScrollArea>
+    </div>
+  );
+}
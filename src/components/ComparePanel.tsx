@@ -0,0 +1,136 @@
+import { ArrowRight, Check } from "lucide-react";
+import type { FontEntry } from "@/lib/fonts";
+import type { FontDiff, MetricChange } from "@/lib/fontDiff";
+import type { CompareLayout } from "@/pixi/stage";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const LAYOUTS: { value: CompareLayout; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "stacked", label: "Stacked (A top)" },
+  { value: "split", label: "Split (A left)" },
+];
+
+/** How many added/removed glyphs to list before summarising the rest. */
+const LIST_MAX = 40;
+
+function show(chars: string[]): string {
+  const head = chars.slice(0, LIST_MAX).map((c) => (c === " " ? "SP" : c)).join(" ");
+  return chars.length > LIST_MAX ? `${head} +${chars.length - LIST_MAX} more` : head;
+}
+
+function ChangeRow({ c }: { c: MetricChange }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-[11px] tabular-nums">
+      <span className="text-muted-foreground">{c.label}</span>
+      <span className="flex items-center gap-1">
+        {c.a}
+        <ArrowRight className="size-3 text-muted-foreground" />
+        {c.b}
+        {c.delta !== null && (
+          <span className={c.delta > 0 ? "text-amber-300" : "text-sky-300"}>
+            ({c.delta > 0 ? "+" : ""}
+            {c.delta})
+          </span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+/** A/B setup (second font + stage layout) and what changed from A to B. */
+export function ComparePanel({
+  fonts,
+  activeId,
+  compareId,
+  layout,
+  onCompareFont,
+  onLayout,
+  diff,
+}: {
+  fonts: FontEntry[];
+  activeId: string | null;
+  compareId: string | null;
+  layout: CompareLayout;
+  onCompareFont: (id: string) => void;
+  onLayout: (layout: CompareLayout) => void;
+  diff: FontDiff | null;
+}) {
+  const others = fonts.filter((f) => f.id !== activeId);
+
+  return (
+    <div className="space-y-3 p-4">
+      <div className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+        A/B compare
+      </div>
+      {others.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground">Load a second font to compare it side by side.</p>
+      ) : (
+        <>
+          <div className="space-y-1.5">
+            <Label>Font B</Label>
+            <Select value={compareId ?? ""} onValueChange={onCompareFont}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Pick a font" />
+              </SelectTrigger>
+              <SelectContent>
+                {others.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Layout</Label>
+            <Select value={layout} onValueChange={(v) => onLayout(v as CompareLayout)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LAYOUTS.map((l) => (
+                  <SelectItem key={l.value} value={l.value}>
+                    {l.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      {diff &&
+        (diff.same ? (
+          <div className="flex items-center gap-2 rounded-md border border-emerald-500/30 bg-emerald-500/10 px-2.5 py-1.5 text-[11px] text-emerald-300">
+            <Check className="size-3 shrink-0" />
+            No metric differences between A and B.
+          </div>
+        ) : (
+          <div className="space-y-1 rounded-md border border-border p-2.5">
+            {diff.metrics.map((c) => (
+              <ChangeRow key={c.label} c={c} />
+            ))}
+            {diff.advances.length > 0 && (
+              <p className="pt-1 text-[10px] uppercase tracking-wide text-muted-foreground">Advances</p>
+            )}
+            {diff.advances.map((c) => (
+              <ChangeRow key={c.label} c={c} />
+            ))}
+            {diff.added.length > 0 && (
+              <p className="pt-1 text-[11px] text-emerald-300">+ {show(diff.added)}</p>
+            )}
+            {diff.removed.length > 0 && (
+              <p className="text-[11px] text-red-400">- {show(diff.removed)}</p>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -1,6 +1,23 @@
 import { Play, Square, RotateCcw } from "lucide-react";
+import type { ALPHA_MODES } from "pixi.js";
 import type { Preset } from "@/lib/presets";
-import { FORMAT_META, type FormatKind } from "@/lib/formats";
+import {
+  DEFAULT_LOCALE_FORMAT,
+  DEFAULT_TEMPLATE,
+  FORMAT_META,
+  SIGN_MODES,
+  formatValue,
+  localeFormatter,
+  type FormatKind,
+  type LocaleFormat,
+  type MinusGlyph,
+  type SignMode,
+} from "@/lib/formats";
+import { ALPHA_MODE_LABELS } from "@/lib/alphaAnalysis";
+import { toNumber } from "@/lib/amount";
+import { CURRENCIES, DEFAULT_MONEY, resolveMoney, type MoneyFormat, type MoneyPlacement } from "@/lib/currencies";
+import { parseTemplate } from "@/lib/formatTemplate";
+import { DEFAULT_ODOMETER, ODOMETER_PADS, type OdometerFormat } from "@/lib/odometer";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
@@ -14,6 +31,12 @@ import {
 } from "@/components/ui/select";
 
 const FORMAT_KEYS = Object.keys(FORMAT_META) as FormatKind[];
+const ALPHA_MODE_KEYS = Object.keys(ALPHA_MODE_LABELS) as ALPHA_MODES[];
+const SIGN_KEYS = Object.keys(SIGN_MODES) as SignMode[];
+const MINUS_GLYPHS: { value: MinusGlyph; label: string }[] = [
+  { value: "-", label: "Hyphen-minus (-)" },
+  { value: "\u2212", label: "Minus sign (\u2212, U+2212)" },
+];
 
 function Row({
   label,
@@ -35,6 +58,206 @@ function Row({
   );
 }
 
+const inputClass =
+  "h-7 rounded-md border border-input bg-transparent px-2 text-[11px] tabular-nums focus:outline-none focus:ring-1 focus:ring-ring";
+
+/** A decimals field as a whole number 0-8 (empty = unset); min/max alone do not stop typed values. */
+const readDecimals = (raw: string): number | undefined =>
+  raw === "" ? undefined : Math.min(8, Math.max(0, Math.trunc(Number(raw)) || 0));
+
+/** Locale tag, currency and decimals for the `locale` format. */
+function LocaleFields({
+  value,
+  onChange,
+}: {
+  value: LocaleFormat;
+  onChange: (locale: LocaleFormat) => void;
+}) {
+  const valid = !!localeFormatter(value);
+  return (
+    <div className="space-y-1.5 rounded-md border border-border p-2.5">
+      <div className="grid grid-cols-[1fr_4.5rem_3.5rem] gap-1.5">
+        <Label className="text-[11px]">Locale</Label>
+        <Label className="text-[11px]">Currency</Label>
+        <Label className="text-[11px]">Decimals</Label>
+        <input
+          value={value.locale}
+          onChange={(e) => onChange({ ...value, locale: e.target.value })}
+          placeholder="fr-FR"
+          className={`${inputClass} min-w-0`}
+        />
+        <input
+          value={value.currency ?? ""}
+          onChange={(e) => onChange({ ...value, currency: e.target.value.toUpperCase() || undefined })}
+          placeholder="none"
+          className={`${inputClass} min-w-0`}
+        />
+        <input
+          type="number"
+          min={0}
+          max={8}
+          value={value.decimals ?? ""}
+          onChange={(e) => onChange({ ...value, decimals: readDecimals(e.target.value) })}
+          placeholder="auto"
+          className={`${inputClass} min-w-0`}
+        />
+      </div>
+      <p className={`text-[10.5px] ${valid ? "text-muted-foreground" : "text-red-400"}`}>
+        {valid
+          ? "Grouping, decimals and symbols come from Intl.NumberFormat. Leave currency empty for a plain number."
+          : "Unknown locale tag or currency code - showing plain digits."}
+      </p>
+    </div>
+  );
+}
+
+/** Currency, mark and decimals for the `money` format. */
+function MoneyFields({ value, onChange }: { value: MoneyFormat; onChange: (money: MoneyFormat) => void }) {
+  const resolved = resolveMoney(value);
+  const known = CURRENCIES[value.code];
+  return (
+    <div className="space-y-1.5 rounded-md border border-border p-2.5">
+      <div className="grid grid-cols-[1fr_1fr] gap-1.5">
+        <Label className="text-[11px]">Currency</Label>
+        <Label className="text-[11px]">Mark</Label>
+        <Select
+          value={known ? value.code : ""}
+          // a new currency brings its own placement, spacing and decimals
+          onValueChange={(code) => onChange({ code, iso: value.iso })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={value.code} />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CURRENCIES).map(([code, c]) => (
+              <SelectItem key={code} value={code}>
+                {code} | {c.symbol}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.iso ? "iso" : "symbol"}
+          onValueChange={(v) => onChange({ ...value, iso: v === "iso" })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="symbol">Symbol{known ? ` (${known.symbol})` : ""}</SelectItem>
+            <SelectItem value="iso">ISO code ({value.code})</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-[1fr_3.5rem_3.5rem] items-end gap-1.5">
+        <Label className="text-[11px]">Placement</Label>
+        <Label className="text-[11px]">Space</Label>
+        <Label className="text-[11px]">Decimals</Label>
+        <Select
+          value={resolved.prefix ? "prefix" : "suffix"}
+          onValueChange={(v) => onChange({ ...value, placement: v as MoneyPlacement })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="prefix">Before the number</SelectItem>
+            <SelectItem value="suffix">After the number</SelectItem>
+          </SelectContent>
+        </Select>
+        <Switch
+          checked={/ /.test(resolved.prefix + resolved.suffix)}
+          onCheckedChange={(space) => onChange({ ...value, space })}
+        />
+        <input
+          type="number"
+          min={0}
+          max={8}
+          value={value.decimals ?? ""}
+          onChange={(e) => onChange({ ...value, decimals: readDecimals(e.target.value) })}
+          placeholder={String(known?.decimals ?? 2)}
+          className={`${inputClass} min-w-0`}
+        />
+      </div>
+      <p className="text-[10.5px] leading-snug text-muted-foreground">
+        Grouped with "," and "."; decimals default to the currency's minor unit.
+      </p>
+    </div>
+  );
+}
+
+/** Cell count, pad glyph and dimming for the `odometer` format. */
+function OdometerFields({
+  value,
+  dim,
+  onChange,
+  onDim,
+}: {
+  value: OdometerFormat;
+  dim: boolean;
+  onChange: (odometer: OdometerFormat) => void;
+  onDim: (dimPadding: boolean) => void;
+}) {
+  return (
+    <div className="space-y-1.5 rounded-md border border-border p-2.5">
+      <div className="grid grid-cols-[3.5rem_1fr_3.5rem] items-end gap-1.5">
+        <Label className="text-[11px]">Cells</Label>
+        <Label className="text-[11px]">Pad</Label>
+        <Label className="text-[11px]">Dim</Label>
+        <input
+          type="number"
+          min={1}
+          max={20}
+          value={value.digits}
+          onChange={(e) => onChange({ ...value, digits: Math.max(1, Math.min(20, Number(e.target.value) || 1)) })}
+          className={`${inputClass} min-w-0`}
+        />
+        <Select value={value.pad} onValueChange={(pad) => onChange({ ...value, pad })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ODOMETER_PADS.map((p) => (
+              <SelectItem key={p.pad} value={p.pad}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Switch checked={dim} onCheckedChange={onDim} />
+      </div>
+      <p className="text-[10.5px] leading-snug text-muted-foreground">
+        Unused cells are filled with the pad glyph; Dim draws them faded on the stage.
+      </p>
+    </div>
+  );
+}
+
+/** Source of a `template` format, with its parse error or a preview. */
+function TemplateField({ value, onChange }: { value: string; onChange: (template: string) => void }) {
+  let error: string | null = null;
+  try {
+    parseTemplate(value);
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  return (
+    <div className="space-y-1.5 rounded-md border border-border p-2.5">
+      <Label className="text-[11px]">Template</Label>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        className={`${inputClass} w-full font-mono`}
+      />
+      <p className={`text-[10.5px] leading-snug ${error ? "text-red-400" : "text-muted-foreground"}`}>
+        {error ??
+          "Text around one {number} field. 0 pads, # is optional, \",\" groups, \".\" starts decimals; ;group= and ;decimal= set the printed separators."}
+      </p>
+    </div>
+  );
+}
+
 export function ControlsPanel({
   preset,
   onChange,
@@ -44,6 +267,10 @@ export function ControlsPanel({
   onReset,
   showBounds,
   onToggleBounds,
+  highlightBleed,
+  onToggleBleed,
+  alphaMode,
+  onAlphaMode,
   currentText,
 }: {
   preset: Preset;
@@ -54,6 +281,10 @@ export function ControlsPanel({
   onReset: () => void;
   showBounds: boolean;
   onToggleBounds: (v: boolean) => void;
+  highlightBleed: boolean;
+  onToggleBleed: (v: boolean) => void;
+  alphaMode: ALPHA_MODES;
+  onAlphaMode: (mode: ALPHA_MODES) => void;
   currentText: string;
 }) {
   return (
@@ -90,7 +321,17 @@ export function ControlsPanel({
         </Button>
       </div>
 
-      <Row label="Format" value={FORMAT_META[preset.format].sample}>
+      <Row
+        label="Format"
+        value={
+          preset.format === "locale" ||
+          preset.format === "template" ||
+          preset.format === "money" ||
+          preset.format === "odometer"
+            ? formatValue(12345.67, preset.format, preset)
+            : FORMAT_META[preset.format].sample
+        }
+      >
         <Select
           value={preset.format}
           onValueChange={(v) => onChange({ format: v as FormatKind })}
@@ -107,13 +348,79 @@ export function ControlsPanel({
           </SelectContent>
         </Select>
       </Row>
+      {preset.format === "locale" && (
+        <LocaleFields
+          value={preset.locale ?? DEFAULT_LOCALE_FORMAT}
+          onChange={(locale) => onChange({ locale })}
+        />
+      )}
+      {preset.format === "money" && (
+        <MoneyFields value={preset.money ?? DEFAULT_MONEY} onChange={(money) => onChange({ money })} />
+      )}
+      {preset.format === "odometer" && (
+        <OdometerFields
+          value={preset.odometer ?? DEFAULT_ODOMETER}
+          dim={!!preset.dimPadding}
+          onChange={(odometer) => onChange({ odometer })}
+          onDim={(dimPadding) => onChange({ dimPadding })}
+        />
+      )}
+      {preset.format === "template" && (
+        <TemplateField
+          value={preset.template ?? DEFAULT_TEMPLATE}
+          onChange={(template) => onChange({ template })}
+        />
+      )}
 
-      <Row label="Target value" value={preset.to.toLocaleString()}>
+      <Row
+        label="Sign"
+        value={formatValue(-1250, preset.format, preset)}
+      >
+        <Select
+          value={preset.sign ?? "clamp"}
+          onValueChange={(v) => onChange({ sign: v as SignMode })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SIGN_KEYS.map((k) => (
+              <SelectItem key={k} value={k}>
+                {SIGN_MODES[k].label} | {SIGN_MODES[k].sample}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Row>
+      {(preset.sign === "negative" || preset.sign === "explicit") && preset.format !== "locale" && (
+        <Row label="Minus glyph" value={preset.minus ?? "-"}>
+          <Select
+            value={preset.minus ?? "-"}
+            onValueChange={(v) => onChange({ minus: v as MinusGlyph })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MINUS_GLYPHS.map((g) => (
+                <SelectItem key={g.value} value={g.value}>
+                  {g.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Row>
+      )}
+
+      <Row
+        label="Target value"
+        value={typeof preset.to === "string" ? preset.to : preset.to.toLocaleString()}
+      >
         <Slider
-          min={0}
+          min={(preset.sign ?? "clamp") === "clamp" ? 0 : -1_000_000}
           max={1_000_000}
           step={1}
-          value={[preset.to]}
+          value={[toNumber(preset.to)]}
           onValueChange={([v]) => onChange({ to: v })}
         />
       </Row>
@@ -152,6 +459,26 @@ export function ControlsPanel({
         <Label className="cursor-pointer">Show glyph bounds</Label>
         <Switch checked={showBounds} onCheckedChange={onToggleBounds} />
       </div>
+
+      <div className="flex items-center justify-between rounded-md border border-border px-3 py-2">
+        <Label className="cursor-pointer">Highlight bleed risks</Label>
+        <Switch checked={highlightBleed} onCheckedChange={onToggleBleed} />
+      </div>
+
+      <Row label="Texture alpha" value={alphaMode === "premultiply-alpha-on-upload" ? "default" : "forced"}>
+        <Select value={alphaMode} onValueChange={(v) => onAlphaMode(v as ALPHA_MODES)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALPHA_MODE_KEYS.map((m) => (
+              <SelectItem key={m} value={m}>
+                {ALPHA_MODE_LABELS[m]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Row>
     </div>
   );
 }
@@ -1,11 +1,45 @@
 import { useEffect, useState } from "react";
 import { UploadCloud } from "lucide-react";
+import type { SourceFile } from "@/lib/zip";
 
-/** Full-window drag-and-drop catcher for custom .fnt + page images. */
+/** Every file under a dropped entry, keyed by its path inside the drop. */
+async function walkEntry(entry: FileSystemEntry): Promise<SourceFile[]> {
+  const path = entry.fullPath.replace(/^\//, "");
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ path, file }];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries hands back at most ~100 entries per call
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (!batch.length) break;
+    children.push(...batch);
+  }
+  return (await Promise.all(children.map(walkEntry))).flat();
+}
+
+/** Dropped files and folders (walked recursively); plain files keep their name as path. */
+async function readDrop(dt: DataTransfer): Promise<SourceFile[]> {
+  // entries must be taken while the drop event is live
+  const entries = Array.from(dt.items)
+    .map((i) => i.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+  if (!entries.length) return Array.from(dt.files).map((file) => ({ path: file.name, file }));
+  return (await Promise.all(entries.map(walkEntry))).flat();
+}
+
+/** Full-window drag-and-drop catcher for custom .fnt + page images (loose, in folders or zipped). */
 export function DropOverlay({
   onFiles,
+  onError,
 }: {
-  onFiles: (files: File[]) => void;
+  onFiles: (files: SourceFile[]) => void;
+  /** the drop could not be read (e.g. a folder the browser refused to walk). */
+  onError: (err: Error) => void;
 }) {
   const [dragging, setDragging] = useState(false);
 
@@ -25,8 +59,12 @@ export function DropOverlay({
       e.preventDefault();
       depth = 0;
       setDragging(false);
-      const files = Array.from(e.dataTransfer?.files ?? []);
-      if (files.length) onFiles(files);
+      if (!e.dataTransfer) return;
+      readDrop(e.dataTransfer)
+        .then((files) => {
+          if (files.length) onFiles(files);
+        })
+        .catch((err) => onError(err instanceof Error ? err : new Error(String(err))));
     };
     window.addEventListener("dragenter", onEnter);
     window.addEventListener("dragleave", onLeave);
@@ -38,16 +76,16 @@ export function DropOverlay({
       window.removeEventListener("dragover", onOver);
       window.removeEventListener("drop", onDrop);
     };
-  }, [onFiles]);
+  }, [onFiles, onError]);
 
   if (!dragging) return null;
   return (
     <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
       <div className="flex flex-col items-center gap-3 rounded-xl border-2 border-dashed border-primary/50 px-16 py-12">
         <UploadCloud className="size-10 text-foreground/80" />
-        <p className="text-sm font-medium">Drop a .fnt / .xml + its page image</p>
+        <p className="text-sm font-medium">Drop a .fnt / .xml / .json + its page image, a folder of fonts, or a .zip</p>
         <p className="text-xs text-muted-foreground">
-          Angel-Code bitmap fonts. The image pages must accompany the descriptor.
+          Angel-Code / BMFont-JSON bitmap fonts. The image pages must accompany the descriptor; zips are unpacked in the browser.
         </p>
       </div>
     </div>
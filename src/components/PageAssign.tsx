@@ -0,0 +1,66 @@
+import type { FontEntry } from "@/lib/fonts";
+import type { PageMatchKind } from "@/lib/pages";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const KIND_LABEL: Record<PageMatchKind, string> = {
+  exact: "ok",
+  case: "case",
+  extension: "ext",
+  manual: "manual",
+  missing: "missing",
+};
+
+/** Per-page image picker for the active font (drawer). */
+export function PageAssign({
+  entry,
+  onAssign,
+}: {
+  entry: FontEntry;
+  onAssign: (pageId: number, imagePath: string) => void;
+}) {
+  const candidates = entry.source.candidates;
+  return (
+    <div className="space-y-1.5 pt-1">
+      {entry.pages.map((p) => (
+        <div key={p.id} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-[10px] text-muted-foreground">
+            <span className="truncate" title={p.declared}>
+              Page {p.id}: {p.declared}
+            </span>
+            <Badge
+              variant={
+                p.kind === "exact" ? "success" : p.kind === "missing" ? "destructive" : "muted"
+              }
+            >
+              {KIND_LABEL[p.kind]}
+            </Badge>
+          </div>
+          {candidates.length > 0 && (
+            <Select
+              value={p.source?.path ?? ""}
+              onValueChange={(v) => onAssign(p.id, v)}
+            >
+              <SelectTrigger className="h-7 text-[11px]">
+                <SelectValue placeholder="Assign an image..." />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((c) => (
+                  <SelectItem key={c.path} value={c.path}>
+                    {c.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
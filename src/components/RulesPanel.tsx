@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Copy, RotateCcw, Trash2 } from "lucide-react";
+import {
+  RULES,
+  builtinDefaults,
+  isBuiltinProfile,
+  type RuleProfile,
+  type RuleSetting,
+} from "@/lib/rules";
+import type { Severity } from "@/lib/validation";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const SEVERITIES: Severity[] = ["error", "warn", "info"];
+
+const inputClass =
+  "h-7 rounded-md border border-input bg-transparent px-2 text-[11px] tabular-nums focus:outline-none focus:ring-1 focus:ring-ring";
+
+/** Rule profile picker + per-rule toggles, thresholds and severities. */
+export function RulesPanel({
+  profiles,
+  profile,
+  onSelect,
+  onChange,
+  onDuplicate,
+  onDelete,
+}: {
+  profiles: RuleProfile[];
+  profile: RuleProfile;
+  onSelect: (id: string) => void;
+  onChange: (profile: RuleProfile) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const builtin = isBuiltinProfile(profile.id);
+
+  const patchRule = (id: keyof RuleProfile["rules"], patch: Partial<RuleSetting>) =>
+    onChange({ ...profile, rules: { ...profile.rules, [id]: { ...profile.rules[id], ...patch } } });
+
+  return (
+    <div className="space-y-3 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setOpen((o) => !o)}
+          className="flex items-center gap-1 text-[11px] font-semibold uppercase tracking-wide text-muted-foreground hover:text-foreground"
+        >
+          {open ? <ChevronDown className="size-3" /> : <ChevronRight className="size-3" />}
+          Rules
+        </button>
+        <Select value={profile.id} onValueChange={onSelect}>
+          <SelectTrigger className="h-7 w-44 text-[11px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {open && (
+        <>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={onDuplicate}>
+              <Copy className="size-3" /> Duplicate
+            </Button>
+            {builtin ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => onChange(builtinDefaults(profile.id)!)}
+              >
+                <RotateCcw className="size-3" /> Reset
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" className="flex-1" onClick={onDelete}>
+                <Trash2 className="size-3" /> Delete
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {RULES.map((def) => {
+              const s = profile.rules[def.id];
+              return (
+                <div key={def.id} className="space-y-1 rounded-md border border-border px-2.5 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-[11px]" title={def.description}>
+                      {def.label}
+                    </Label>
+                    <Switch
+                      checked={s.enabled}
+                      onCheckedChange={(enabled) => patchRule(def.id, { enabled })}
+                    />
+                  </div>
+                  {s.enabled && (
+                    <div className="flex items-center gap-2">
+                      {def.unit && (
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={s.threshold}
+                          onChange={(e) => patchRule(def.id, { threshold: Number(e.target.value) || 0 })}
+                          className={`${inputClass} w-16`}
+                          title={`Threshold (${def.unit})`}
+                        />
+                      )}
+                      <Select
+                        value={s.severity}
+                        onValueChange={(v) => patchRule(def.id, { severity: v as Severity })}
+                      >
+                        <SelectTrigger className="h-7 flex-1 text-[11px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SEVERITIES.map((sev) => (
+                            <SelectItem key={sev} value={sev}>
+                              {sev}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-[11px]">Required separators / symbols</Label>
+            <input
+              value={profile.separators.join("")}
+              onChange={(e) => onChange({ ...profile, separators: Array.from(new Set(e.target.value)) })}
+              className={`${inputClass} w-full`}
+            />
+            <Label className="text-[11px]">Required letters</Label>
+            <input
+              value={profile.letters.join("")}
+              onChange={(e) => onChange({ ...profile, letters: Array.from(new Set(e.target.value)) })}
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { ShiftTimeline } from "@/lib/layoutSim";
+
+const W = 280;
+const H = 56;
+
+/**
+ * Edge-position chart for a simulated count-up: the right edge (= half the
+ * text width, centre anchor) over time, with a tick on every frame where an
+ * edge moved by more than the timeline's tolerance.
+ */
+export function ShiftChart({ timeline }: { timeline: ShiftTimeline }) {
+  const { frames, duration } = timeline;
+  const maxRight = Math.max(1, ...frames.map((f) => f.right));
+  const x = (t: number) => (duration > 0 ? (t / duration) * W : 0);
+  const y = (r: number) => H - 4 - (r / maxRight) * (H - 8);
+  const path = frames.map((f, i) => `${i ? "L" : "M"}${x(f.t).toFixed(1)},${y(f.right).toFixed(1)}`).join("");
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="h-14 w-full" preserveAspectRatio="none">
+      {frames.map((f, i) =>
+        Math.max(Math.abs(f.dLeft), Math.abs(f.dRight)) > timeline.tolerance ? (
+          <line
+            key={i}
+            x1={x(f.t)}
+            x2={x(f.t)}
+            y1={0}
+            y2={H}
+            stroke="rgb(245 158 11 / 0.35)"
+            strokeWidth={1}
+          />
+        ) : null
+      )}
+      <path d={path} fill="none" stroke="rgb(52 211 153)" strokeWidth={1.25} />
+    </svg>
+  );
+}
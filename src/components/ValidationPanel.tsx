@@ -3,9 +3,23 @@ import {
   X,
   AlertTriangle,
   ArrowLeftRight,
+  ArrowUpDown,
+  Layers,
   Ban,
+  Info,
+  Blend,
 } from "lucide-react";
-import type { FontReport, GlyphCheck } from "@/lib/validation";
+import type { Finding, FontReport, GlyphCheck, Severity } from "@/lib/validation";
+import type { ShiftTimeline } from "@/lib/layoutSim";
+import type { CollisionResult } from "@/lib/collision";
+import type { RuleOutcome, Verdict } from "@/lib/rules";
+import type { InkResult } from "@/lib/inkAnalysis";
+import type { BleedResult } from "@/lib/atlasBleed";
+import type { AlphaResult } from "@/lib/alphaAnalysis";
+import type { GlyphNeed } from "@/lib/glyphSet";
+import type { PadResult } from "@/lib/odometer";
+import { glyphName } from "@/lib/formats";
+import { ShiftChart } from "@/components/ShiftChart";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
@@ -31,12 +45,124 @@ function GlyphChip({ g }: { g: GlyphCheck }) {
   );
 }
 
+const SEVERITY_STYLE: Record<Severity, string> = {
+  error: "border-destructive/40 bg-destructive/10 text-red-300",
+  warn: "border-amber-500/40 bg-amber-500/10 text-amber-300",
+  info: "border-border bg-secondary/30 text-muted-foreground",
+};
+
+function FindingList({
+  title,
+  findings,
+  empty,
+}: {
+  title: string;
+  findings: Finding[];
+  /** shown when there are no findings; without it the section hides. */
+  empty?: string;
+}) {
+  if (findings.length === 0 && !empty) return null;
+  return (
+    <div>
+      <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+        {title}
+      </p>
+      {findings.length === 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-emerald-500/30 bg-emerald-500/10 px-2.5 py-1.5 text-[11px] text-emerald-300">
+          <Check className="size-3 shrink-0" />
+          {empty}
+        </div>
+      )}
+      <div className="space-y-1">
+        {findings.map((f) => (
+          <div
+            key={f.id}
+            className={cn(
+              "flex items-start gap-2 rounded-md border px-2.5 py-1.5 text-[11px] leading-snug",
+              SEVERITY_STYLE[f.severity]
+            )}
+          >
+            {f.severity === "error" ? (
+              <Ban className="mt-0.5 size-3 shrink-0" />
+            ) : f.severity === "warn" ? (
+              <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+            ) : (
+              <Info className="mt-0.5 size-3 shrink-0" />
+            )}
+            <span className="min-w-0 break-words">{f.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const VERDICT_STYLE: Record<Verdict, string> = {
+  pass: "border-emerald-500/30 bg-emerald-500/15 text-emerald-400",
+  warn: "border-amber-500/40 bg-amber-500/15 text-amber-300",
+  fail: "border-destructive/40 bg-destructive/15 text-red-400",
+};
+
+function RuleList({ rules }: { rules: RuleOutcome[] }) {
+  return (
+    <div>
+      <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+        Rules
+      </p>
+      <div className="space-y-1">
+        {rules.map((r) => (
+          <div
+            key={r.id}
+            className={cn(
+              "flex items-start gap-2 rounded-md border px-2.5 py-1.5 text-[11px] leading-snug",
+              r.passed
+                ? "border-emerald-500/30 bg-emerald-500/10 text-emerald-300"
+                : SEVERITY_STYLE[r.severity]
+            )}
+          >
+            {r.passed ? (
+              <Check className="mt-0.5 size-3 shrink-0" />
+            ) : r.severity === "error" ? (
+              <Ban className="mt-0.5 size-3 shrink-0" />
+            ) : r.severity === "warn" ? (
+              <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+            ) : (
+              <Info className="mt-0.5 size-3 shrink-0" />
+            )}
+            <span className="min-w-0 flex-1 break-words">{r.label}</span>
+            <span className="shrink-0 opacity-70">{r.detail}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function ValidationPanel({
   report,
   missing,
+  shift,
+  collision,
+  ink,
+  bleed,
+  alpha,
+  pad,
 }: {
   report: FontReport | null;
-  missing: string[];
+  /** glyphs the current preset's run shows that the font lacks. */
+  missing: GlyphNeed[];
+  /** simulated layout shift of the current preset's count-up. */
+  shift: ShiftTimeline | null;
+  /** ink overlap at the current preset's letter spacing and size. */
+  collision: CollisionResult | null;
+  /** glyph ink read from the atlas pixels (null while decoding). */
+  ink: InkResult | null;
+  /** atlas padding vs. linear-filter bleed at the current preset's size. */
+  bleed: BleedResult | null;
+  /** alpha convention read from glyph edge pixels (null while decoding). */
+  alpha: AlphaResult | null;
+  /** the odometer's pad glyph against the digits (null for other formats). */
+  pad: PadResult | null;
 }) {
   if (!report || !report.found) {
     return (
@@ -46,13 +172,20 @@ export function ValidationPanel({
     );
   }
 
-  const missingReal = missing.filter((c) => c !== " ");
   const jump = report.jump;
+  const vertical = report.vertical;
 
   return (
     <div className="space-y-4 p-4">
       {/* summary row */}
       <div className="flex flex-wrap items-center gap-2">
+        <Badge
+          variant="outline"
+          className={VERDICT_STYLE[report.verdict]}
+          title={`Profile: ${report.profile}`}
+        >
+          {report.verdict} | {report.score}
+        </Badge>
         <Badge variant={report.canTick ? "success" : "destructive"}>
           {report.canTick ? (
             <Check className="mr-1 size-3" />
@@ -78,6 +211,30 @@ export function ValidationPanel({
         </div>
       )}
 
+      <RuleList rules={report.rules} />
+
+      <FindingList title="Pages" findings={report.pages} />
+      <FindingList
+        title="Descriptor"
+        findings={report.descriptor}
+        empty="Descriptor is consistent with its page images."
+      />
+      {ink && ink.analysed > 0 && (
+        <FindingList
+          title="Atlas ink"
+          findings={ink.findings}
+          empty={`Ink of all ${ink.analysed} glyphs sits cleanly inside its rect.`}
+        />
+      )}
+      {alpha && <FindingList title="Alpha mode" findings={alpha.findings} />}
+      {pad && (
+        <FindingList
+          title="Odometer padding"
+          findings={pad.findings}
+          empty={`Pad ${pad.pad === " " ? "SP" : `'${pad.pad}'`} advances ${pad.advance}px, matching the digits.`}
+        />
+      )}
+
       {/* ── the headline: will the tick-up jump? ─────────────── */}
       <div>
         <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
@@ -106,19 +263,37 @@ export function ValidationPanel({
           <p className="mt-1.5 text-[11px] leading-snug text-muted-foreground">
             {jump.willJump ? (
               <>
-                Digit advances differ by up to{" "}
-                <span className="font-semibold text-amber-300">
-                  {jump.jumpPx}px
-                </span>
-                {jump.widestPair ? ` (${jump.widestPair})` : ""}. As the counter
-                cycles digits, the number's width changes and it shimmies
-                horizontally. Use a tabular/mono figure set for win counters.
+                {jump.spreadJumps && (
+                  <>
+                    Digit advances differ by up to{" "}
+                    <span className="font-semibold text-amber-300">
+                      {jump.spread}px
+                    </span>
+                    {jump.widestPair ? ` (${jump.widestPair})` : ""}.{" "}
+                  </>
+                )}
+                {jump.kerningJumps && (
+                  <>
+                    Kerning between digits / separators varies by{" "}
+                    <span className="font-semibold text-amber-300">
+                      {jump.kerningSpread}px
+                    </span>
+                    {jump.worstKernedPair
+                      ? ` (worst ${jump.worstKernedPair.pair}: ${jump.worstKernedPair.amount}px)`
+                      : ""}
+                    .{" "}
+                  </>
+                )}
+                As the counter cycles digits, the number's width changes and it
+                shimmies horizontally. Use a tabular/mono figure set with no
+                digit kerning for win counters.
               </>
             ) : (
               <>
-                All digits share one advance ({jump.minAdvance}px), so swapping
-                any digit for another keeps the width identical - the counter
-                stays rock-steady while ticking.
+                All digits share one advance ({jump.minAdvance}px)
+                {jump.kernedPairs > 0 ? " and kerning is uniform" : ""}, so
+                swapping any digit for another keeps the width identical - the
+                counter stays rock-steady while ticking.
               </>
             )}
           </p>
@@ -132,14 +307,243 @@ export function ValidationPanel({
         </div>
       </div>
 
-      {missingReal.length > 0 && (
+      <div>
+        <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+          Vertical alignment
+        </p>
+        <div
+          className={cn(
+            "rounded-md border p-3",
+            vertical.aligned
+              ? "border-emerald-500/30 bg-emerald-500/10"
+              : "border-amber-500/40 bg-amber-500/10"
+          )}
+        >
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            {vertical.aligned ? (
+              <Check className="size-4 text-emerald-400" />
+            ) : (
+              <ArrowUpDown className="size-4 text-amber-400" />
+            )}
+            <span className={vertical.aligned ? "text-emerald-300" : "text-amber-300"}>
+              {vertical.willBounce
+                ? `Will bounce ${vertical.baselineSpread}px`
+                : vertical.aligned
+                  ? "Steady baseline"
+                  : "Separators off the baseline"}
+            </span>
+          </div>
+          <p className="mt-1.5 text-[11px] leading-snug text-muted-foreground">
+            {vertical.willBounce ? (
+              <>
+                Digit bottoms differ by up to{" "}
+                <span className="font-semibold text-amber-300">
+                  {vertical.baselineSpread}px
+                </span>
+                {vertical.worstDigit ? ` (worst ${vertical.worstDigit})` : ""}, so
+                the counter bounces vertically as digits cycle.
+              </>
+            ) : (
+              <>All digits share one baseline ({vertical.baseline}px from the line top).</>
+            )}
+          </p>
+          {vertical.outOfBand.length > 0 && (
+            <ul className="mt-1.5 space-y-0.5 text-[11px] leading-snug text-amber-300">
+              {vertical.outOfBand.map((o) => (
+                <li key={o.char}>
+                  "{o.char}" {o.label.toLowerCase()}: {o.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-2 flex justify-between border-t border-border/50 pt-2 text-[10.5px] text-muted-foreground">
+            <span>baseline spread {vertical.baselineSpread}px</span>
+            <span>height spread {vertical.heightSpread}px</span>
+          </div>
+        </div>
+      </div>
+
+      {ink && ink.digits.length > 1 && (
+        <div>
+          <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+            Optical centre
+          </p>
+          <div className="rounded-md border border-border bg-secondary/30 p-2.5 text-xs">
+            <div className="flex flex-wrap gap-1.5">
+              {ink.digits.map((d) => (
+                <span
+                  key={d.char}
+                  title={`ink centre ${d.centre}px from the pen`}
+                  className="rounded-md border border-border px-1.5 py-0.5 text-[10.5px] tabular-nums"
+                >
+                  <span className="font-semibold">{d.char}</span>{" "}
+                  <span className="opacity-70">
+                    {d.offset > 0 ? "+" : ""}
+                    {d.offset}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <div className="mt-1.5 flex justify-between">
+              <span className="text-muted-foreground">centre spread</span>
+              <span className={cn("tabular-nums", ink.jumpy ? "text-amber-400" : "text-emerald-400")}>
+                {ink.centreSpread}px
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {shift && (
+        <div>
+          <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+            Count-up layout shift
+          </p>
+          <div className="rounded-md border border-border bg-secondary/30 p-2.5 text-xs">
+            <ShiftChart timeline={shift} />
+            <div className="mt-1.5 flex justify-between">
+              <span className="text-muted-foreground">shift events</span>
+              <span className="tabular-nums">
+                {shift.shiftEvents} / {shift.frames.length} frames
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">largest jump</span>
+              <span
+                className={cn(
+                  "tabular-nums",
+                  shift.maxJump > shift.tolerance ? "text-amber-400" : "text-emerald-400"
+                )}
+              >
+                {shift.maxJump}px
+              </span>
+            </div>
+            {shift.maxJumpFrame && shift.maxJump > shift.tolerance && (
+              <p className="mt-1 text-[10.5px] leading-snug text-muted-foreground">
+                at {shift.maxJumpFrame.t.toFixed(2)}s: "{shift.maxJumpFrame.from}" to "
+                {shift.maxJumpFrame.to}"
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {collision && collision.checkedPairs > 0 && (
+        <div>
+          <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+            Glyph collision
+          </p>
+          <div
+            className={cn(
+              "rounded-md border p-3",
+              collision.collides
+                ? "border-amber-500/40 bg-amber-500/10"
+                : "border-emerald-500/30 bg-emerald-500/10"
+            )}
+          >
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              {collision.collides ? (
+                <Layers className="size-4 text-amber-400" />
+              ) : (
+                <Check className="size-4 text-emerald-400" />
+              )}
+              <span className={collision.collides ? "text-amber-300" : "text-emerald-300"}>
+                {collision.collides
+                  ? `${collision.collidingPairs} pair(s) overlap`
+                  : "No glyph overlap"}
+              </span>
+            </div>
+            <p className="mt-1.5 text-[11px] leading-snug text-muted-foreground">
+              At {collision.fontSize}px with {collision.letterSpacing}px letter
+              spacing, across {collision.checkedPairs} character pairs. Tightest
+              collision-free spacing:{" "}
+              <span className="font-semibold text-foreground/85">
+                {collision.tightestSafeSpacing}px
+              </span>
+              .
+            </p>
+            {collision.worst.length > 0 && (
+              <div className="mt-1.5 flex flex-wrap gap-1.5">
+                {collision.worst.map((p) => (
+                  <span
+                    key={p.pair}
+                    className="rounded-md border border-amber-500/30 px-1.5 py-0.5 text-[10.5px] tabular-nums text-amber-300"
+                  >
+                    {p.pair} {p.overlap}px
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {bleed && bleed.checkedGlyphs > 0 && (
+        <div>
+          <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+            Texture bleed
+          </p>
+          <div
+            className={cn(
+              "rounded-md border p-3",
+              bleed.tightPairs > 0
+                ? "border-amber-500/40 bg-amber-500/10"
+                : "border-emerald-500/30 bg-emerald-500/10"
+            )}
+          >
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              {bleed.tightPairs > 0 ? (
+                <Blend className="size-4 text-amber-400" />
+              ) : (
+                <Check className="size-4 text-emerald-400" />
+              )}
+              <span className={bleed.tightPairs > 0 ? "text-amber-300" : "text-emerald-300"}>
+                {bleed.tightPairs > 0
+                  ? `${bleed.tightPairs} pair(s) packed too close`
+                  : "Atlas padding is enough"}
+              </span>
+            </div>
+            <p className="mt-1.5 text-[11px] leading-snug text-muted-foreground">
+              Drawn at {bleed.scale}x the atlas size, linear filtering reaches{" "}
+              <span className="font-semibold text-foreground/85">
+                {bleed.bleedDistance}px
+              </span>{" "}
+              past each glyph rect. Tightest gap:{" "}
+              {bleed.pages
+                .map((p) => (p.minGap === null ? "-" : `${p.minGap}px`))
+                .join(" / ")}
+              {bleed.edgeGlyphs.length > 0 &&
+                `; ${bleed.edgeGlyphs.length} glyph(s) sit that close to the page edge (harmless with clamp-to-edge)`}
+              .
+            </p>
+            {bleed.worst.length > 0 && (
+              <div className="mt-1.5 flex flex-wrap gap-1.5">
+                {bleed.worst.map((p) => (
+                  <span
+                    key={`${p.page}:${p.pair}`}
+                    className="rounded-md border border-amber-500/30 px-1.5 py-0.5 text-[10.5px] tabular-nums text-amber-300"
+                  >
+                    {p.pair} {p.gap}px
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {missing.length > 0 && (
         <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/10 p-2.5 text-xs text-red-300">
           <AlertTriangle className="mt-0.5 size-3.5 shrink-0" />
           <span>
             Current preset needs{" "}
-            <span className="font-semibold">
-              {missingReal.map((c) => `"${c}"`).join(", ")}
-            </span>{" "}
+            {missing.map((g, i) => (
+              <span key={g.char}>
+                {i > 0 && ", "}
+                <span className="font-semibold">{glyphName(g.char) === g.char ? `"${g.char}"` : glyphName(g.char)}</span>
+                <span className="text-red-300/70"> (in "{g.sample}")</span>
+              </span>
+            ))}{" "}
             - missing from this font. Those characters will not render.
           </span>
         </div>
@@ -161,12 +565,24 @@ export function ValidationPanel({
             <span
               className={cn(
                 "tabular-nums",
-                jump.willJump ? "text-amber-400" : "text-emerald-400"
+                jump.spreadJumps ? "text-amber-400" : "text-emerald-400"
               )}
             >
               {jump.spread}px
             </span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">kerning spread</span>
+            <span
+              className={cn(
+                "tabular-nums",
+                jump.kerningJumps ? "text-amber-400" : "text-emerald-400"
+              )}
+            >
+              {jump.kerningSpread}px
+              {jump.kernedPairs > 0 ? ` (${jump.kernedPairs} pairs)` : ""}
+            </span>
+          </div>
         </div>
       </div>
 
@@ -196,7 +612,7 @@ export function ValidationPanel({
 
       <div>
         <p className="mb-1.5 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
-          Letters (WIN | K/M/B)
+          Letters (WIN | K/M/B/T)
         </p>
         <div className="flex flex-wrap gap-1.5">
           {report.letters.map((g) => (
@@ -0,0 +1,215 @@
+import type { ALPHA_MODES, BitmapFontData } from "pixi.js";
+import type { Finding } from "./fontReport";
+import type { PagePixels } from "./inkAnalysis";
+
+/**
+ * Which alpha convention an atlas was exported with, read from the colour of
+ * each glyph's anti-aliased edge. With straight alpha the edge keeps the ink's
+ * colour and only alpha fades; premultiplied (or black-matted) edges darken in
+ * step with alpha. Loading one as the other is what produces halos: a
+ * premultiplied page premultiplied again on upload gets a dark fringe, and a
+ * straight page taken as already premultiplied gets a light one - and colour
+ * left under fully transparent pixels then glows around the glyph. The grey
+ * stage background hides most of it, so it is measured here instead.
+ */
+
+export type AlphaGuess = "straight" | "premultiplied" | "mixed" | "unknown";
+
+export interface AlphaResult {
+  guess: AlphaGuess;
+  /** how the pages are currently loaded (see fonts.ts setAlphaMode). */
+  loadedAs: ALPHA_MODES;
+  /** edge pixels that could tell the two conventions apart. */
+  edgePixels: number;
+  /** share of those whose colour follows alpha (premultiplied), 0-1. */
+  premultipliedShare: number;
+  /** fully transparent pixels inside glyph rects that still carry colour. */
+  hiddenColour: number;
+  /** glyphs whose edges read the other way from the atlas as a whole. */
+  oddGlyphs: string[];
+  findings: Finding[];
+}
+
+/** alpha at or below this counts as empty (matches the ink scan). */
+const ALPHA_FLOOR = 8;
+/** alpha at or above this is treated as the ink's own colour. */
+const CORE_ALPHA = 250;
+/** cores darker than this cannot show a premultiplied falloff. */
+const DARK_CORE = 40;
+/** the two predictions must differ by this much for a pixel to count. */
+const DISTINCT = 24;
+/** colour under zero alpha above this is more than compression noise. */
+const HIDDEN_RGB = 8;
+/** fewer telling edge pixels than this and the guess is unknown. */
+const MIN_EDGE = 32;
+/** share of votes either way needed for a confident guess. */
+const CONFIDENT = 0.8;
+const LIST_MAX = 8;
+
+export const ALPHA_MODE_LABELS: Record<ALPHA_MODES, string> = {
+  "premultiply-alpha-on-upload": "Straight (Pixi default)",
+  "premultiplied-alpha": "Premultiplied",
+  "no-premultiply-alpha": "No premultiply",
+};
+
+const show = (c: string) => (c === " " ? "SP" : `'${c}'`);
+
+function listChars(chars: string[]): string {
+  const head = chars.slice(0, LIST_MAX).map(show).join(", ");
+  return chars.length > LIST_MAX ? `${head} +${chars.length - LIST_MAX} more` : head;
+}
+
+interface Votes {
+  premultiplied: number;
+  straight: number;
+  hidden: number;
+}
+
+function scanEdges(page: PagePixels, x0: number, y0: number, w: number, h: number): Votes {
+  const votes: Votes = { premultiplied: 0, straight: 0, hidden: 0 };
+  const px = (x: number, y: number) => (y * page.width + x) * 4;
+  const x1 = Math.min(page.width, x0 + w);
+  const y1 = Math.min(page.height, y0 + h);
+
+  // the ink's own brightness, from its opaque core
+  let coreSum = 0;
+  let coreCount = 0;
+  for (let y = Math.max(0, y0); y < y1; y++) {
+    for (let x = Math.max(0, x0); x < x1; x++) {
+      const i = px(x, y);
+      if (page.data[i + 3] < CORE_ALPHA) continue;
+      coreSum += Math.max(page.data[i], page.data[i + 1], page.data[i + 2]);
+      coreCount++;
+    }
+  }
+  const core = coreCount ? coreSum / coreCount : 0;
+
+  for (let y = Math.max(0, y0); y < y1; y++) {
+    for (let x = Math.max(0, x0); x < x1; x++) {
+      const i = px(x, y);
+      const a = page.data[i + 3];
+      const m = Math.max(page.data[i], page.data[i + 1], page.data[i + 2]);
+      if (a === 0) {
+        if (m > HIDDEN_RGB) votes.hidden++;
+        continue;
+      }
+      if (a <= ALPHA_FLOOR || a >= CORE_ALPHA || core < DARK_CORE) continue;
+      const premultiplied = (core * a) / 255;
+      if (core - premultiplied < DISTINCT) continue;
+      if (Math.abs(m - premultiplied) < Math.abs(m - core)) votes.premultiplied++;
+      else votes.straight++;
+    }
+  }
+  return votes;
+}
+
+/**
+ * Classify the atlas from every glyph's edge pixels. `pages[i]` holds the raw
+ * (not premultiplied) pixels of `data.pages[i]`, or null when it has no image.
+ */
+export function analyzeAlpha(
+  data: BitmapFontData,
+  pages: (PagePixels | null)[],
+  loadedAs: ALPHA_MODES
+): AlphaResult {
+  const pageIndex = new Map(data.pages.map((p, i) => [p.id, i] as const));
+  const total: Votes = { premultiplied: 0, straight: 0, hidden: 0 };
+  const perGlyph: { char: string; votes: Votes }[] = [];
+
+  for (const [char, c] of Object.entries(data.chars)) {
+    const page = pages[pageIndex.get(c.page) ?? -1];
+    if (!page || c.width <= 0 || c.height <= 0) continue;
+    const votes = scanEdges(page, c.x, c.y, c.width, c.height);
+    total.premultiplied += votes.premultiplied;
+    total.straight += votes.straight;
+    total.hidden += votes.hidden;
+    perGlyph.push({ char, votes });
+  }
+
+  const edgePixels = total.premultiplied + total.straight;
+  const share = edgePixels ? total.premultiplied / edgePixels : 0;
+  const guess: AlphaGuess =
+    edgePixels < MIN_EDGE
+      ? "unknown"
+      : share >= CONFIDENT
+        ? "premultiplied"
+        : share <= 1 - CONFIDENT
+          ? "straight"
+          : "mixed";
+
+  // against a confident guess, a glyph voting mostly the other way stands out
+  const oddGlyphs =
+    guess === "premultiplied" || guess === "straight"
+      ? perGlyph
+          .filter(({ votes }) => {
+            const n = votes.premultiplied + votes.straight;
+            const own = guess === "premultiplied" ? votes.straight : votes.premultiplied;
+            return n > 0 && own / n > 0.5;
+          })
+          .map((g) => g.char)
+      : [];
+
+  const treatedAsPremultiplied = loadedAs !== "premultiply-alpha-on-upload";
+  const pct = Math.round(share * 100);
+  const findings: Finding[] = [];
+
+  if (guess === "unknown") {
+    findings.push({
+      id: "alpha-mode",
+      severity: "info",
+      message: `Too few anti-aliased edge pixels (${edgePixels}) on bright ink to tell the alpha mode.`,
+    });
+  } else {
+    findings.push({
+      id: "alpha-mode",
+      severity: "info",
+      message: `Edges look ${guess}: ${pct}% of ${edgePixels} edge pixels darken in step with alpha. Loaded as ${ALPHA_MODE_LABELS[loadedAs]}.`,
+    });
+  }
+  if (guess === "premultiplied" && !treatedAsPremultiplied) {
+    findings.push({
+      id: "alpha-halo",
+      severity: "warn",
+      message:
+        "Edge colour already follows alpha (premultiplied, or matted on black) but the pages are premultiplied again on upload - glyphs get a dark halo. Load them as premultiplied or re-export with straight alpha.",
+    });
+  }
+  if (guess === "straight" && treatedAsPremultiplied) {
+    findings.push({
+      id: "alpha-halo",
+      severity: "warn",
+      message: "Straight-alpha pages are loaded as if premultiplied - glyph edges render brighter than the ink (light fringe).",
+    });
+  }
+  if (guess === "mixed") {
+    findings.push({
+      id: "alpha-mixed",
+      severity: "warn",
+      message: `Edges disagree (${pct}% premultiplied) - parts of the atlas were exported differently, so some glyphs will halo whichever mode is used.`,
+    });
+  }
+  if (oddGlyphs.length) {
+    findings.push({
+      id: "alpha-odd",
+      severity: "warn",
+      message: `${oddGlyphs.length} glyph(s) read as ${guess === "premultiplied" ? "straight" : "premultiplied"}, unlike the rest: ${listChars(oddGlyphs)}.`,
+    });
+  }
+  if (total.hidden > 0 && treatedAsPremultiplied) {
+    findings.push({
+      id: "alpha-bleed",
+      severity: "warn",
+      message: `${total.hidden} fully transparent pixel(s) inside glyph rects still carry colour - taken as premultiplied they add a glow around the ink.`,
+    });
+  }
+
+  return {
+    guess,
+    loadedAs,
+    edgePixels,
+    premultipliedShare: Math.round(share * 100) / 100,
+    hiddenColour: total.hidden,
+    oddGlyphs,
+    findings,
+  };
+}
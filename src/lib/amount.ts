@@ -0,0 +1,114 @@
+/**
+ * Exact amounts for the counter. A JS number only holds 15-17 significant
+ * digits, so a jackpot past 2^53 or an 8-decimal crypto balance cannot be
+ * tweened or printed faithfully as one. Presets may give their values as a
+ * number, a decimal string ("98765432109876543.21") or a BigInt; the counter
+ * interpolates in whole minor units of the format (cents for a 2dp format)
+ * held in a BigInt, and formatting works on the decimal digits directly.
+ */
+
+export type Amount = number | string | bigint;
+
+/** A decimal split into its digits: `int` has no leading zeros ("0" for zero). */
+export interface Digits {
+  negative: boolean;
+  int: string;
+  frac: string;
+}
+
+const DECIMAL = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+const ZERO: Digits = { negative: false, int: "0", frac: "" };
+
+/**
+ * Exact digits of an amount. Numbers use their shortest round-trip form
+ * (1.005 stays "1.005"), so nothing is added past what the literal said.
+ * Anything unparseable - NaN, Infinity, "abc" - reads as zero.
+ */
+export function toDigits(value: Amount): Digits {
+  if (typeof value === "bigint") {
+    return { negative: value < 0n, int: (value < 0n ? -value : value).toString(), frac: "" };
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) return ZERO;
+  const m = DECIMAL.exec(String(value).trim());
+  if (!m || !(m[2] || m[3])) return ZERO;
+  let int = m[2];
+  let frac = m[3] ?? "";
+  // move the point for exponent forms ("1e+21", "5e-7")
+  const exp = Number(m[4] ?? 0);
+  if (exp > 0) {
+    frac = frac.padEnd(exp, "0");
+    int += frac.slice(0, exp);
+    frac = frac.slice(exp);
+  } else if (exp < 0) {
+    int = int.padStart(-exp, "0");
+    frac = int.slice(exp) + frac;
+    int = int.slice(0, exp);
+  }
+  int = int.replace(/^0+/, "") || "0";
+  frac = frac.replace(/0+$/, "");
+  return { negative: m[1] === "-" && (int !== "0" || frac !== ""), int, frac };
+}
+
+/** The amount in minor units at `scale` decimals, truncated toward zero. */
+export function toUnits(value: Amount, scale: number): bigint {
+  const d = toDigits(value);
+  const units = BigInt(d.int + d.frac.padEnd(scale, "0").slice(0, scale));
+  return d.negative ? -units : units;
+}
+
+/** The exact decimal string of `units` minor units at `scale` decimals. */
+export function fromUnits(units: bigint, scale: number): string {
+  const abs = (units < 0n ? -units : units).toString().padStart(scale + 1, "0");
+  const int = abs.slice(0, abs.length - scale);
+  const frac = scale ? `.${abs.slice(-scale)}` : "";
+  return `${units < 0n ? "-" : ""}${int}${frac}`;
+}
+
+/** Approximate number, for sliders and other UI that only needs a magnitude. */
+export function toNumber(value: Amount): number {
+  const d = toDigits(value);
+  const n = Number(`${d.int}.${d.frac || "0"}`);
+  return d.negative ? -n : n;
+}
+
+/** Steps an eased progress is quantised to - finer than any visible frame. */
+const PROGRESS_STEPS = 1_000_000_000;
+
+/**
+ * `from` + (`to` - `from`) * `progress`, in whole units. Exact at progress 0
+ * and 1, and the overshoot of back/elastic eases (progress past 1) is kept.
+ */
+export function lerpUnits(from: bigint, to: bigint, progress: number): bigint {
+  const p = BigInt(Math.round(progress * PROGRESS_STEPS));
+  return from + ((to - from) * p) / BigInt(PROGRESS_STEPS);
+}
+
+/** A preset's count-up in minor units: `from` -> `to`, then `topUp` more. */
+export interface CounterRange {
+  scale: number;
+  from: bigint;
+  to: bigint;
+  /** 0 when the preset has no (positive) top-up. */
+  topUp: bigint;
+}
+
+export function counterRange(
+  values: { from: Amount; to: Amount; topUp?: Amount },
+  scale: number
+): CounterRange {
+  const topUp = values.topUp === undefined ? 0n : toUnits(values.topUp, scale);
+  return {
+    scale,
+    from: toUnits(values.from, scale),
+    to: toUnits(values.to, scale),
+    topUp: topUp > 0n ? topUp : 0n,
+  };
+}
+
+/**
+ * The counter's exact value given each phase's eased progress: the base
+ * tick runs from -> to, the top-up then adds its share on top.
+ */
+export function counterValue(range: CounterRange, base: number, bump = 0): string {
+  return fromUnits(lerpUnits(range.from, range.to, base) + lerpUnits(0n, range.topUp, bump), range.scale);
+}
@@ -0,0 +1,133 @@
+import type { BitmapFontData } from "pixi.js";
+import type { PageSize } from "./descriptorLint";
+
+/**
+ * Texture-bleed risk from atlas packing. Drawn with linear filtering, a glyph
+ * quad samples texels past its own rect - one texel when magnified, and about
+ * 1/scale texels when minified (each screen pixel then covers that many
+ * texels). A neighbour packed closer than that shows up as a faint sliver
+ * along the glyph's edge, which is what the huge and tiny edge presets bring
+ * out. This measures the gap between every nearby pair of rects on a page and
+ * each rect's distance to the page edge.
+ */
+
+export interface BleedPair {
+  /** the two glyphs, e.g. "'1' | '7'". */
+  pair: string;
+  page: number;
+  /** texels between the rects (Chebyshev); negative when they overlap. */
+  gap: number;
+}
+
+export interface PageBleed {
+  id: number;
+  /** tightest gap between two rects within BLEED_WINDOW, null if none are that close. */
+  minGap: number | null;
+  minEdge: number | null;
+}
+
+export interface BleedResult {
+  /** screen px per texel at the tested size. */
+  scale: number;
+  /** texels a neighbour must keep clear at this scale. */
+  bleedDistance: number;
+  /** pairs closer than bleedDistance, tightest first (capped at WORST_MAX). */
+  worst: BleedPair[];
+  tightPairs: number;
+  /** every glyph in a pair closer than bleedDistance. */
+  offenders: string[];
+  /** glyphs closer to the page edge than bleedDistance. */
+  edgeGlyphs: string[];
+  pages: PageBleed[];
+  checkedGlyphs: number;
+}
+
+/** gaps up to this many texels are measured even when they are safe. */
+const BLEED_WINDOW = 16;
+const WORST_MAX = 5;
+
+const show = (c: string) => (c === " " ? "SP" : `'${c}'`);
+
+/** Texels linear filtering can reach past a rect when drawn at `scale`. */
+export function bleedDistance(scale: number): number {
+  return scale > 0 ? Math.max(1, Math.ceil(1 / scale - 1e-6)) : 1;
+}
+
+interface Rect {
+  char: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * `pageSizes[i]` is the pixel size of `data.pages[i]` (null when unknown -
+ * edge distances are skipped for that page); `scale` is fontSize / data size.
+ */
+export function analyzeBleed(
+  data: BitmapFontData,
+  pageSizes: (PageSize | null)[],
+  scale: number
+): BleedResult {
+  const reach = bleedDistance(scale);
+  const window = Math.max(reach, BLEED_WINDOW);
+  const byPage = new Map<number, Rect[]>();
+  for (const [char, c] of Object.entries(data.chars)) {
+    if (c.width <= 0 || c.height <= 0) continue;
+    byPage.set(c.page, [...(byPage.get(c.page) ?? []), { char, x: c.x, y: c.y, w: c.width, h: c.height }]);
+  }
+
+  const pairs: BleedPair[] = [];
+  const offenders = new Set<string>();
+  const edgeGlyphs: string[] = [];
+  const pages: PageBleed[] = [];
+  let checked = 0;
+
+  data.pages.forEach((page, i) => {
+    const rects = (byPage.get(page.id) ?? []).sort((a, b) => a.x - b.x);
+    checked += rects.length;
+    let minGap: number | null = null;
+
+    // sweep along x: once a rect starts past a's right edge + window, so do the rest
+    for (let ai = 0; ai < rects.length; ai++) {
+      const a = rects[ai];
+      for (let bi = ai + 1; bi < rects.length && rects[bi].x < a.x + a.w + window; bi++) {
+        const b = rects[bi];
+        const gapX = Math.max(b.x - (a.x + a.w), a.x - (b.x + b.w));
+        const gapY = Math.max(b.y - (a.y + a.h), a.y - (b.y + b.h));
+        const gap = Math.max(gapX, gapY);
+        if (gap >= window) continue;
+        minGap = minGap === null ? gap : Math.min(minGap, gap);
+        if (gap < reach) {
+          pairs.push({ pair: `${show(a.char)} | ${show(b.char)}`, page: page.id, gap });
+          offenders.add(a.char);
+          offenders.add(b.char);
+        }
+      }
+    }
+
+    const size = pageSizes[i];
+    let minEdge: number | null = null;
+    if (size) {
+      for (const r of rects) {
+        const edge = Math.min(r.x, r.y, size.width - (r.x + r.w), size.height - (r.y + r.h));
+        minEdge = minEdge === null ? edge : Math.min(minEdge, edge);
+        if (edge < reach) edgeGlyphs.push(r.char);
+      }
+    }
+    pages.push({ id: page.id, minGap, minEdge });
+  });
+
+  pairs.sort((a, b) => a.gap - b.gap);
+  return {
+    scale: Math.round(scale * 1000) / 1000,
+    bleedDistance: reach,
+    worst: pairs.slice(0, WORST_MAX),
+    tightPairs: pairs.length,
+    offenders: [...offenders],
+    edgeGlyphs,
+    pages,
+    checkedGlyphs: checked,
+  };
+}
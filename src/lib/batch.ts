@@ -0,0 +1,67 @@
+import type { FontEntry } from "./fonts";
+import { FORMAT_META, charsForFormat, type FormatKind } from "./formats";
+import type { RuleProfile } from "./rules";
+import { analyzeFont, missingChars, type FontReport } from "./validation";
+
+/**
+ * Batch comparison: one row per loaded font with the figures that decide
+ * between candidates - can it tick, how far it jumps, how much its baseline
+ * bounces, and which number formats it cannot render.
+ */
+
+export const FORMAT_KINDS = Object.keys(FORMAT_META) as FormatKind[];
+
+export interface BatchRow {
+  id: string;
+  label: string;
+  report: FontReport;
+  /** chars each format needs that the font lacks. */
+  missing: Record<FormatKind, string[]>;
+}
+
+export type SortKey =
+  | "label"
+  | "canTick"
+  | "jump"
+  | "baseline"
+  | "glyphs"
+  | "score"
+  | FormatKind;
+
+export function analyzeBatch(entries: FontEntry[], profile: RuleProfile): BatchRow[] {
+  return entries.map((e) => {
+    const missing = {} as Record<FormatKind, string[]>;
+    for (const kind of FORMAT_KINDS) missing[kind] = missingChars(e.fontFamily, charsForFormat(kind));
+    return { id: e.id, label: e.label, report: analyzeFont(e.fontFamily, profile), missing };
+  });
+}
+
+function sortValue(row: BatchRow, key: SortKey): number | string {
+  switch (key) {
+    case "label":
+      return row.label.toLowerCase();
+    case "canTick":
+      return row.report.canTick ? 1 : 0;
+    case "jump":
+      return row.report.jump.jumpPx;
+    case "baseline":
+      return row.report.vertical.baselineSpread;
+    case "glyphs":
+      return row.report.glyphCount;
+    case "score":
+      return row.report.score;
+    default:
+      return row.missing[key].length;
+  }
+}
+
+/** Rows ordered by one column; ties keep the label order. */
+export function sortRows(rows: BatchRow[], key: SortKey, descending: boolean): BatchRow[] {
+  const dir = descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const va = sortValue(a, key);
+    const vb = sortValue(b, key);
+    if (va !== vb) return (va < vb ? -1 : 1) * dir;
+    return a.label.localeCompare(b.label);
+  });
+}
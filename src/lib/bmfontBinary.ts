@@ -0,0 +1,138 @@
+import type { BitmapFontData } from "pixi.js";
+
+/**
+ * Angel-Code BMFont binary descriptor (.fnt, version 3) - the default output
+ * of the BMFont exporter. Layout: a 4-byte "BMF\x03" header, then a run of
+ * blocks, each `type (u8) + size (u32 LE) + payload`. Produces the same
+ * BitmapFontData shape as Pixi's text/XML parsers (kerning keyed on the
+ * second char, baseLineOffset = lineHeight - base).
+ */
+
+const BLOCK_INFO = 1;
+const BLOCK_COMMON = 2;
+const BLOCK_PAGES = 3;
+const BLOCK_CHARS = 4;
+const BLOCK_KERNING = 5;
+
+const CHAR_SIZE = 20;
+const KERNING_SIZE = 10;
+/** ids past this are not chars - BMFont's invalid-char glyph is id -1 (0xFFFFFFFF). */
+export const MAX_CODE_POINT = 0x10ffff;
+
+function readCString(bytes: Uint8Array, start: number, end: number): { value: string; next: number } {
+  let i = start;
+  while (i < end && bytes[i] !== 0) i++;
+  return { value: new TextDecoder().decode(bytes.subarray(start, i)), next: i + 1 };
+}
+
+export const bitmapFontBinaryParser = {
+  test(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 4) return false;
+    const b = new Uint8Array(buffer, 0, 4);
+    return b[0] === 0x42 && b[1] === 0x4d && b[2] === 0x46 && b[3] === 3;
+  },
+
+  parse(buffer: ArrayBuffer): BitmapFontData {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    const font: BitmapFontData = {
+      chars: {},
+      pages: [],
+      lineHeight: 0,
+      fontSize: 0,
+      fontFamily: "",
+      baseLineOffset: 0,
+    };
+
+    let base = 0;
+    let seenInfo = false;
+    let seenCommon = false;
+    const letters: Record<number, string> = {};
+    const kernings: { first: number; second: number; amount: number }[] = [];
+
+    let offset = 4;
+    while (offset < buffer.byteLength) {
+      if (offset + 5 > buffer.byteLength) throw new Error("Binary .fnt is truncated (block header).");
+      const type = view.getUint8(offset);
+      const size = view.getUint32(offset + 1, true);
+      const start = offset + 5;
+      const end = start + size;
+      if (end > buffer.byteLength) throw new Error(`Binary .fnt is truncated (block ${type}).`);
+
+      switch (type) {
+        case BLOCK_INFO: {
+          // negative size = "match char height" in BMFont; the magnitude is the px size
+          font.fontSize = Math.abs(view.getInt16(start, true));
+          font.fontFamily = readCString(bytes, start + 14, end).value;
+          seenInfo = true;
+          break;
+        }
+        case BLOCK_COMMON: {
+          font.lineHeight = view.getUint16(start, true);
+          base = view.getUint16(start + 2, true);
+          seenCommon = true;
+          break;
+        }
+        case BLOCK_PAGES: {
+          let p = start;
+          while (p < end) {
+            const { value, next } = readCString(bytes, p, end);
+            font.pages.push({ id: font.pages.length, file: value });
+            p = next;
+          }
+          break;
+        }
+        case BLOCK_CHARS: {
+          for (let p = start; p + CHAR_SIZE <= end; p += CHAR_SIZE) {
+            const id = view.getUint32(p, true);
+            // BMFont's invalid-char glyph is id -1 (0xFFFFFFFF) - not a code point, skip it
+            if (id > MAX_CODE_POINT) continue;
+            const letter = String.fromCodePoint(id);
+            letters[id] = letter;
+            font.chars[letter] = {
+              id,
+              letter,
+              x: view.getUint16(p + 4, true),
+              y: view.getUint16(p + 6, true),
+              width: view.getUint16(p + 8, true),
+              height: view.getUint16(p + 10, true),
+              xOffset: view.getInt16(p + 12, true),
+              yOffset: view.getInt16(p + 14, true),
+              xAdvance: view.getInt16(p + 16, true),
+              page: view.getUint8(p + 18),
+              kerning: {},
+            };
+          }
+          break;
+        }
+        case BLOCK_KERNING: {
+          for (let p = start; p + KERNING_SIZE <= end; p += KERNING_SIZE) {
+            kernings.push({
+              first: view.getUint32(p, true),
+              second: view.getUint32(p + 4, true),
+              amount: view.getInt16(p + 8, true),
+            });
+          }
+          break;
+        }
+        default:
+          // unknown block - skip it, the size prefix tells us how far
+          break;
+      }
+      offset = end;
+    }
+
+    if (!seenInfo) throw new Error("Binary .fnt has no info block.");
+    if (!seenCommon) throw new Error("Binary .fnt has no common block.");
+    if (font.pages.length === 0) throw new Error("Binary .fnt lists no pages.");
+
+    font.baseLineOffset = font.lineHeight - base;
+    for (const k of kernings) {
+      const second = font.chars[letters[k.second]];
+      const first = letters[k.first];
+      if (second && first !== undefined) second.kerning[first] = k.amount;
+    }
+    return font;
+  },
+};
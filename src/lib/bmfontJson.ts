@@ -0,0 +1,107 @@
+import type { BitmapFontData } from "pixi.js";
+
+/**
+ * BMFont schema serialised as JSON - what msdf-bmfont-xml, bmfont-json and
+ * most atlas tools write next to the page image:
+ *
+ *   { pages: ["font.png"], chars: [{ id, x, y, width, height, xoffset, ... }],
+ *     kernings: [{ first, second, amount }], info: { face, size },
+ *     common: { lineHeight, base }, distanceField?: { fieldType, distanceRange } }
+ *
+ * Produces the same BitmapFontData shape as Pixi's text/XML parsers.
+ */
+
+interface JsonChar {
+  id: number;
+  char?: string;
+  letter?: string;
+  page?: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  xoffset: number;
+  yoffset: number;
+  xadvance: number;
+}
+
+interface JsonFont {
+  pages?: string[];
+  chars?: JsonChar[];
+  kernings?: { first: number; second: number; amount: number }[];
+  info?: { face?: string; size?: number };
+  common?: { lineHeight?: number; base?: number };
+  distanceField?: { fieldType?: "sdf" | "msdf" | "none"; distanceRange?: number };
+}
+
+function num(v: unknown, fallback = 0): number {
+  const n = typeof v === "number" ? v : parseFloat(String(v));
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export const bitmapFontJSONParser = {
+  test(raw: string): boolean {
+    return raw.trimStart().startsWith("{");
+  },
+
+  parse(raw: string): BitmapFontData {
+    let json: JsonFont;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      throw new Error("JSON descriptor is not valid JSON.");
+    }
+
+    if (!json.info) throw new Error("JSON descriptor is missing the 'info' block.");
+    if (!json.common) throw new Error("JSON descriptor is missing the 'common' block.");
+    if (!Array.isArray(json.pages) || json.pages.length === 0) {
+      throw new Error("JSON descriptor is missing the 'pages' list.");
+    }
+    if (!Array.isArray(json.chars)) throw new Error("JSON descriptor is missing the 'chars' list.");
+
+    const lineHeight = num(json.common.lineHeight);
+    const font: BitmapFontData = {
+      chars: {},
+      pages: json.pages.map((file, id) => ({ id, file })),
+      lineHeight,
+      fontSize: Math.abs(num(json.info.size)),
+      fontFamily: json.info.face ?? "",
+      baseLineOffset: lineHeight - num(json.common.base),
+    };
+
+    if (json.distanceField?.fieldType) {
+      font.distanceField = {
+        type: json.distanceField.fieldType,
+        range: num(json.distanceField.distanceRange),
+      };
+    }
+
+    const letters: Record<number, string> = {};
+    for (const c of json.chars) {
+      const id = num(c.id);
+      let letter = c.char ?? c.letter ?? String.fromCodePoint(id);
+      if (letter === "space") letter = " ";
+      letters[id] = letter;
+      font.chars[letter] = {
+        id,
+        letter,
+        page: num(c.page),
+        x: num(c.x),
+        y: num(c.y),
+        width: num(c.width),
+        height: num(c.height),
+        xOffset: num(c.xoffset),
+        yOffset: num(c.yoffset),
+        xAdvance: num(c.xadvance),
+        kerning: {},
+      };
+    }
+
+    for (const k of json.kernings ?? []) {
+      const second = font.chars[letters[num(k.second)]];
+      const first = letters[num(k.first)];
+      if (second && first !== undefined) second.kerning[first] = num(k.amount);
+    }
+    return font;
+  },
+};
@@ -0,0 +1,132 @@
+import type { BitmapFontData } from "pixi.js";
+
+/**
+ * BMFont text (.fnt) and XML descriptors without a DOM. Pixi's XML parser
+ * needs DOMParser and Pixi itself will not load outside a browser, so the
+ * headless CLI reads both markup forms with this instead. Both share one
+ * attribute syntax (`key=value` / `key="value"`), one tag per line or element,
+ * and produce the same BitmapFontData as Pixi's own parsers - XML values
+ * with their entities decoded, text values taken literally.
+ */
+
+type Attrs = Record<string, string>;
+
+const TEXT_TAG_RE = /^[ \t]*(info|common|page|char|kerning|distanceField)\b/gm;
+const XML_TAG_RE = /<[ \t]*(info|common|page|char|kerning|distanceField)\b/g;
+const ATTR_RE = /([a-zA-Z]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'/>]+))/g;
+const ENTITY_RE = /&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi;
+const NAMED: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+/** XML character and entity references, as the DOM resolves them. */
+function decodeEntities(value: string): string {
+  return value.replace(ENTITY_RE, (ref, hex?: string, dec?: string, name?: string) => {
+    if (name) return NAMED[name.toLowerCase()];
+    const code = hex ? parseInt(hex, 16) : Number(dec);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : ref;
+  });
+}
+
+/**
+ * Where a tag's attributes end: the line end in text files, the first `>`
+ * outside a quoted value in XML - so a `>` or `<char` inside a value neither
+ * ends the tag nor starts another.
+ */
+function tagEnd(raw: string, from: number, xml: boolean): number {
+  if (!xml) {
+    const eol = raw.indexOf("\n", from);
+    return eol < 0 ? raw.length : eol;
+  }
+  let quote: string | null = null;
+  for (let i = from; i < raw.length; i++) {
+    const ch = raw[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return raw.length;
+}
+
+function readTags(raw: string): Record<string, Attrs[]> {
+  const xml = raw.trimStart().startsWith("<");
+  const tagRe = new RegExp(xml ? XML_TAG_RE : TEXT_TAG_RE);
+  const tags: Record<string, Attrs[]> = {};
+  for (let m = tagRe.exec(raw); m; m = tagRe.exec(raw)) {
+    const end = tagEnd(raw, tagRe.lastIndex, xml);
+    const attrs: Attrs = {};
+    for (const [, key, double, single, bare] of raw.slice(tagRe.lastIndex, end).matchAll(ATTR_RE)) {
+      const value = double ?? single ?? bare;
+      // text descriptors are taken literally, like Pixi's text parser
+      attrs[key] = xml ? decodeEntities(value) : value;
+    }
+    (tags[m[1]] ??= []).push(attrs);
+    tagRe.lastIndex = end;
+  }
+  return tags;
+}
+
+const int = (v: string | undefined) => parseInt(v ?? "", 10);
+
+export const bitmapFontMarkupParser = {
+  test(raw: string): boolean {
+    const head = raw.trimStart();
+    return head.startsWith("info face=") || (head.startsWith("<") && /<font[\s>]/.test(head));
+  },
+
+  parse(raw: string): BitmapFontData {
+    const tags = readTags(raw);
+    const info = tags.info?.[0];
+    const common = tags.common?.[0];
+    if (!info) throw new Error("Descriptor is missing the 'info' tag.");
+    if (!common) throw new Error("Descriptor is missing the 'common' tag.");
+
+    const lineHeight = int(common.lineHeight);
+    const font: BitmapFontData = {
+      chars: {},
+      pages: (tags.page ?? []).map((p) => ({ id: int(p.id) || 0, file: p.file ?? "" })),
+      lineHeight,
+      fontSize: int(info.size),
+      fontFamily: info.face ?? "",
+      baseLineOffset: lineHeight - int(common.base),
+    };
+
+    const field = tags.distanceField?.[0];
+    if (field) {
+      font.distanceField = {
+        type: field.fieldType as "sdf" | "msdf" | "none",
+        range: int(field.distanceRange),
+      };
+    }
+
+    const letters: Record<number, string> = {};
+    for (const c of tags.char ?? []) {
+      const id = int(c.id);
+      let letter = c.letter ?? c.char ?? String.fromCharCode(id);
+      if (letter === "space") letter = " ";
+      letters[id] = letter;
+      font.chars[letter] = {
+        id,
+        letter,
+        page: int(c.page) || 0,
+        x: int(c.x),
+        y: int(c.y),
+        width: int(c.width),
+        height: int(c.height),
+        xOffset: int(c.xoffset),
+        yOffset: int(c.yoffset),
+        xAdvance: int(c.xadvance),
+        kerning: {},
+      };
+    }
+
+    for (const k of tags.kerning ?? []) {
+      const second = font.chars[letters[int(k.second)]];
+      const first = letters[int(k.first)];
+      if (second && first !== undefined) second.kerning[first] = int(k.amount);
+    }
+    return font;
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * Glyph collision at a given letter spacing. Each glyph's ink rect runs from
+ * its pen position + xOffset to + width; the next pen position is the previous
+ * one + xAdvance + kerning + letterSpacing. Two neighbours collide when the
+ * first one's ink reaches past the start of the second one's.
+ */
+
+/** What collision needs from a glyph - BitmapFontData chars fit as is. */
+export interface InkGlyph {
+  xOffset: number;
+  width: number;
+  xAdvance: number;
+  kerning: Record<string, number>;
+}
+
+export interface CollisionPair {
+  pair: string;
+  /** ink overlap in screen px at the tested size/spacing. */
+  overlap: number;
+}
+
+export interface CollisionResult {
+  fontSize: number;
+  letterSpacing: number;
+  collides: boolean;
+  /** colliding pairs, worst first (capped at WORST_MAX). */
+  worst: CollisionPair[];
+  collidingPairs: number;
+  checkedPairs: number;
+  /** smallest whole-px letter spacing at which no pair overlaps. */
+  tightestSafeSpacing: number;
+}
+
+/** same half-pixel tolerance as the jump test - sub-pixel overlap does not read. */
+const OVERLAP_EPSILON = 0.5;
+const WORST_MAX = 5;
+
+const show = (c: string) => (c === " " ? "SP" : c);
+
+/**
+ * Check each `[left, right]` neighbour pair the font has both glyphs for.
+ * `baseSize` is the size the metrics were authored at; `fontSize`/
+ * `letterSpacing` are what the preset uses.
+ */
+export function findCollisions(
+  glyphs: Record<string, InkGlyph>,
+  baseSize: number,
+  neighbours: [string, string][],
+  fontSize: number,
+  letterSpacing: number
+): CollisionResult {
+  const scale = fontSize / baseSize;
+  // whitespace has no ink to collide with
+  const inked = (c: string) => !!glyphs[c] && glyphs[c].width > 0;
+
+  const pairs: CollisionPair[] = [];
+  // overlap at zero spacing; the safe spacing is the largest of these
+  let needed = -Infinity;
+  let checked = 0;
+  for (const [a, b] of neighbours) {
+    if (!inked(a) || !inked(b)) continue;
+    const ga = glyphs[a];
+    const gb = glyphs[b];
+    const inkRight = (ga.xOffset + ga.width) * scale;
+    const inkLeft = (ga.xAdvance + (gb.kerning?.[a] ?? 0) + gb.xOffset) * scale;
+    const overlapAtZero = inkRight - inkLeft;
+    needed = Math.max(needed, overlapAtZero);
+    checked++;
+    const overlap = overlapAtZero - letterSpacing;
+    if (overlap > OVERLAP_EPSILON) pairs.push({ pair: `${show(a)}${show(b)}`, overlap: Math.round(overlap * 100) / 100 });
+  }
+  pairs.sort((x, y) => y.overlap - x.overlap);
+
+  return {
+    fontSize,
+    letterSpacing,
+    collides: pairs.length > 0,
+    worst: pairs.slice(0, WORST_MAX),
+    collidingPairs: pairs.length,
+    checkedPairs: checked,
+    tightestSafeSpacing: checked ? Math.ceil(needed - OVERLAP_EPSILON) : 0,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * The `money` format: one currency at a time, marked by its symbol or ISO
+ * code before or after the number. Grouping is always "," and the decimal
+ * point "." (the locale format covers local conventions); the decimals follow
+ * the currency's minor unit - 0 for yen, 8 for bitcoin.
+ */
+
+export type MoneyPlacement = "prefix" | "suffix";
+
+export interface CurrencyInfo {
+  name: string;
+  /** the usual mark; crypto tickers are their own symbol. */
+  symbol: string;
+  /** minor-unit digits. */
+  decimals: number;
+  placement: MoneyPlacement;
+  space: boolean;
+}
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  USD: { name: "US dollar", symbol: "$", decimals: 2, placement: "prefix", space: false },
+  EUR: { name: "Euro", symbol: "€", decimals: 2, placement: "suffix", space: true },
+  GBP: { name: "Pound sterling", symbol: "£", decimals: 2, placement: "prefix", space: false },
+  JPY: { name: "Japanese yen", symbol: "¥", decimals: 0, placement: "prefix", space: false },
+  INR: { name: "Indian rupee", symbol: "₹", decimals: 2, placement: "prefix", space: false },
+  RUB: { name: "Russian ruble", symbol: "₽", decimals: 2, placement: "suffix", space: true },
+  TRY: { name: "Turkish lira", symbol: "₺", decimals: 2, placement: "prefix", space: false },
+  BRL: { name: "Brazilian real", symbol: "R$", decimals: 2, placement: "prefix", space: true },
+  BTC: { name: "Bitcoin", symbol: "BTC", decimals: 8, placement: "suffix", space: true },
+  USDT: { name: "Tether", symbol: "USDT", decimals: 2, placement: "suffix", space: true },
+};
+
+/** Settings for the `money` kind; unset fields follow the currency's own. */
+export interface MoneyFormat {
+  /** a CURRENCIES key; any other text is used as the mark itself (2 decimals). */
+  code: string;
+  /** print the ISO code instead of the symbol. */
+  iso?: boolean;
+  placement?: MoneyPlacement;
+  /** a space between the mark and the number. */
+  space?: boolean;
+  decimals?: number;
+}
+
+export const DEFAULT_MONEY: MoneyFormat = { code: "GBP" };
+
+/** Glyphs the symbols above need beyond digits - single-char marks are checked as separators. */
+export const CURRENCY_SYMBOLS = [
+  ...new Set(Object.values(CURRENCIES).flatMap((c) => ([...c.symbol].length === 1 ? [c.symbol] : []))),
+];
+
+/** Letters the multi-char marks and ISO codes are spelled with. */
+export const CURRENCY_LETTERS = [
+  ...new Set(
+    Object.entries(CURRENCIES).flatMap(([code, c]) => [...code, ...([...c.symbol].length > 1 ? c.symbol : "")])
+  ),
+].filter((c) => /\p{L}/u.test(c));
+
+export interface ResolvedMoney {
+  prefix: string;
+  suffix: string;
+  decimals: number;
+}
+
+/** Text either side of the number, and its decimals. */
+export function resolveMoney(m: MoneyFormat): ResolvedMoney {
+  const known = CURRENCIES[m.code];
+  const mark = known && !m.iso ? known.symbol : m.code;
+  const placement = m.placement ?? known?.placement ?? "suffix";
+  const gap = (m.space ?? known?.space ?? true) ? " " : "";
+  return {
+    prefix: placement === "prefix" ? mark + gap : "",
+    suffix: placement === "suffix" ? gap + mark : "",
+    decimals: m.decimals ?? known?.decimals ?? 2,
+  };
+}
+
+/** Every glyph a money format can emit besides digits and signs. */
+export function moneyChars(m: MoneyFormat): string[] {
+  const r = resolveMoney(m);
+  return [...new Set([",", ...(r.decimals ? ["."] : []), ...r.prefix, ...r.suffix])];
+}
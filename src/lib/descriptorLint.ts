@@ -0,0 +1,205 @@
+import type { BitmapFontData } from "pixi.js";
+import { MAX_CODE_POINT } from "./bmfontBinary";
+import type { Finding } from "./fontReport";
+
+/**
+ * Structural lint over a parsed descriptor and its page images. Pixi's
+ * BitmapFontData drops a few things the lint needs (scaleW/scaleH, repeated
+ * char ids, kerning pairs whose chars are absent), so those are read straight
+ * from the descriptor bytes into DescriptorFacts alongside the normal parse.
+ */
+
+export interface DescriptorFacts {
+  scaleW: number | null;
+  scaleH: number | null;
+  /** every char id in file order, repeats included. */
+  charIds: number[];
+  kernings: { first: number; second: number; amount: number }[];
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** How many chars to name in one finding before summarising the rest. */
+const LIST_MAX = 8;
+
+function readBinaryFacts(buffer: ArrayBuffer): DescriptorFacts {
+  const view = new DataView(buffer);
+  const facts: DescriptorFacts = { scaleW: null, scaleH: null, charIds: [], kernings: [] };
+  let offset = 4;
+  while (offset + 5 <= buffer.byteLength) {
+    const type = view.getUint8(offset);
+    const start = offset + 5;
+    const end = Math.min(start + view.getUint32(offset + 1, true), buffer.byteLength);
+    if (type === 2 && end - start >= 8) {
+      facts.scaleW = view.getUint16(start + 4, true);
+      facts.scaleH = view.getUint16(start + 6, true);
+    } else if (type === 4) {
+      for (let p = start; p + 20 <= end; p += 20) {
+        const id = view.getUint32(p, true);
+        // skipped by the parser too, so not a char the kerning can point at
+        if (id <= MAX_CODE_POINT) facts.charIds.push(id);
+      }
+    } else if (type === 5) {
+      for (let p = start; p + 10 <= end; p += 10) {
+        facts.kernings.push({
+          first: view.getUint32(p, true),
+          second: view.getUint32(p + 4, true),
+          amount: view.getInt16(p + 8, true),
+        });
+      }
+    }
+    offset = end;
+  }
+  return facts;
+}
+
+function readJsonFacts(raw: string): DescriptorFacts {
+  const json = JSON.parse(raw);
+  return {
+    scaleW: json.common?.scaleW ?? null,
+    scaleH: json.common?.scaleH ?? null,
+    charIds: (json.chars ?? []).map((c: { id: number }) => Number(c.id)),
+    kernings: (json.kernings ?? []).map((k: { first: number; second: number; amount: number }) => ({
+      first: Number(k.first),
+      second: Number(k.second),
+      amount: Number(k.amount),
+    })),
+  };
+}
+
+/** Text (.fnt) and XML share attribute syntax - `key=value` / `key="value"`. */
+function readMarkupFacts(raw: string): DescriptorFacts {
+  const attr = (line: string, key: string) => {
+    const m = line.match(new RegExp(`\\b${key}="?(-?\\d+)`));
+    return m ? parseInt(m[1], 10) : null;
+  };
+  const facts: DescriptorFacts = { scaleW: null, scaleH: null, charIds: [], kernings: [] };
+  for (const tag of raw.match(/(?:^|<)\s*(?:common|char|kerning)\s[^\n>]*/gm) ?? []) {
+    const name = tag.replace(/^[\s<]+/, "").split(/\s/)[0];
+    if (name === "common") {
+      facts.scaleW = attr(tag, "scaleW");
+      facts.scaleH = attr(tag, "scaleH");
+    } else if (name === "char") {
+      const id = attr(tag, "id");
+      if (id !== null) facts.charIds.push(id);
+    } else if (name === "kerning") {
+      const first = attr(tag, "first");
+      const second = attr(tag, "second");
+      if (first !== null && second !== null) {
+        facts.kernings.push({ first, second, amount: attr(tag, "amount") ?? 0 });
+      }
+    }
+  }
+  return facts;
+}
+
+/** Pull the lint-only facts out of a descriptor, whichever format it is in. */
+export function readDescriptorFacts(buffer: ArrayBuffer, binary: boolean): DescriptorFacts {
+  if (binary) return readBinaryFacts(buffer);
+  const raw = new TextDecoder().decode(buffer);
+  return raw.trimStart().startsWith("{") ? readJsonFacts(raw) : readMarkupFacts(raw);
+}
+
+const show = (c: string) => (c === " " ? "SP" : `'${c}'`);
+
+function listChars(chars: string[]): string {
+  const head = chars.slice(0, LIST_MAX).map(show).join(", ");
+  return chars.length > LIST_MAX ? `${head} +${chars.length - LIST_MAX} more` : head;
+}
+
+/**
+ * Lint a descriptor against itself and its pages. `pageSizes[i]` is the real
+ * pixel size of `data.pages[i]`, or null when that page has no image.
+ */
+export function lintDescriptor(
+  data: BitmapFontData,
+  facts: DescriptorFacts,
+  pageSizes: (PageSize | null)[]
+): Finding[] {
+  const out: Finding[] = [];
+  const chars = Object.entries(data.chars);
+  const pageIndex = new Map(data.pages.map((p, i) => [p.id, i] as const));
+
+  // glyph rects that run off their page
+  const outside = new Map<number, string[]>();
+  for (const [letter, c] of chars) {
+    const size = pageSizes[pageIndex.get(c.page) ?? -1];
+    if (!size) continue;
+    if (c.x < 0 || c.y < 0 || c.x + c.width > size.width || c.y + c.height > size.height) {
+      outside.set(c.page, [...(outside.get(c.page) ?? []), letter]);
+    }
+  }
+  for (const [page, letters] of outside) {
+    const size = pageSizes[pageIndex.get(page)!]!;
+    out.push({
+      id: `rect-outside-${page}`,
+      severity: "error",
+      message: `${letters.length} glyph rect(s) extend past page ${page} (${size.width}x${size.height}): ${listChars(letters)}.`,
+    });
+  }
+
+  // declared atlas size vs the real image
+  if (facts.scaleW !== null && facts.scaleH !== null) {
+    pageSizes.forEach((size, i) => {
+      if (!size || (size.width === facts.scaleW && size.height === facts.scaleH)) return;
+      out.push({
+        id: `scale-${i}`,
+        severity: "warn",
+        message: `scaleW/scaleH say ${facts.scaleW}x${facts.scaleH} but page ${data.pages[i].id} "${data.pages[i].file}" is ${size.width}x${size.height}.`,
+      });
+    });
+  }
+
+  // repeated char ids - the later one silently wins
+  const seen = new Set<number>();
+  const dupes = new Set<number>();
+  for (const id of facts.charIds) (seen.has(id) ? dupes : seen).add(id);
+  if (dupes.size) {
+    out.push({
+      id: "dup-ids",
+      severity: "warn",
+      message: `Duplicate char id(s): ${listChars([...dupes].map((id) => String.fromCodePoint(id)))} - only the last definition is used.`,
+    });
+  }
+
+  // kerning pairs that point at chars the font does not have
+  const orphans = facts.kernings.filter((k) => !seen.has(k.first) || !seen.has(k.second));
+  if (orphans.length) {
+    const sample = orphans
+      .slice(0, LIST_MAX)
+      .map((k) => `${k.first}/${k.second}`)
+      .join(", ");
+    out.push({
+      id: "kerning-orphans",
+      severity: "warn",
+      message: `${orphans.length} kerning pair(s) reference missing chars (ids ${sample}${orphans.length > LIST_MAX ? ", ..." : ""}).`,
+    });
+  }
+
+  // zero-size glyphs that still advance - fine for whitespace, suspicious otherwise
+  const blanks = chars
+    .filter(([letter, c]) => (c.width === 0 || c.height === 0) && c.xAdvance !== 0 && !/\s/.test(letter))
+    .map(([letter]) => letter);
+  if (blanks.length) {
+    out.push({
+      id: "zero-size",
+      severity: "warn",
+      message: `${blanks.length} glyph(s) have no image but a non-zero advance: ${listChars(blanks)}.`,
+    });
+  }
+
+  // line height shorter than the tallest glyph
+  const tallest = chars.reduce<[string, number]>((a, [l, c]) => (c.height > a[1] ? [l, c.height] : a), ["", 0]);
+  if (tallest[1] > data.lineHeight) {
+    out.push({
+      id: "line-height",
+      severity: "warn",
+      message: `lineHeight ${data.lineHeight} is smaller than the tallest glyph (${show(tallest[0])}, ${tallest[1]}px) - lines will overlap.`,
+    });
+  }
+
+  return out;
+}
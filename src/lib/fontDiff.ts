@@ -0,0 +1,76 @@
+import type { FontReport, GlyphCheck } from "./fontReport";
+
+/**
+ * A -> B changes between two font reports, for reviewing a revised font
+ * against the one it replaces: metrics that moved, per-glyph advances that
+ * changed, and glyphs that were added or dropped.
+ */
+
+export interface MetricChange {
+  label: string;
+  a: number | string;
+  b: number | string;
+  /** b - a, for numeric metrics. */
+  delta: number | null;
+}
+
+export interface FontDiff {
+  /** report-level figures (line height, jump, baseline, score, ...). */
+  metrics: MetricChange[];
+  /** advances of checked glyphs present in both fonts. */
+  advances: MetricChange[];
+  added: string[];
+  removed: string[];
+  /** nothing above differs. */
+  same: boolean;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function change(label: string, a: number | string, b: number | string): MetricChange | null {
+  if (a === b) return null;
+  return { label, a, b, delta: typeof a === "number" && typeof b === "number" ? round2(b - a) : null };
+}
+
+function advanceChanges(a: GlyphCheck[], b: GlyphCheck[]): MetricChange[] {
+  const out: MetricChange[] = [];
+  for (const ga of a) {
+    const gb = b.find((g) => g.char === ga.char);
+    if (ga.advance === null || gb?.advance == null) continue;
+    const c = change(`'${ga.char === " " ? "SP" : ga.char}' advance`, ga.advance, gb.advance);
+    if (c) out.push(c);
+  }
+  return out;
+}
+
+export function diffReports(a: FontReport, b: FontReport): FontDiff {
+  const metrics = [
+    change("Line height", a.lineHeight, b.lineHeight),
+    change("Glyphs", a.glyphCount, b.glyphCount),
+    change("Jump px", a.jump.jumpPx, b.jump.jumpPx),
+    change("Kerning spread", a.jump.kerningSpread, b.jump.kerningSpread),
+    change("Baseline spread", a.vertical.baselineSpread, b.vertical.baselineSpread),
+    change("Height spread", a.vertical.heightSpread, b.vertical.heightSpread),
+    change("Score", a.score, b.score),
+    change("Verdict", a.verdict, b.verdict),
+  ].filter((c): c is MetricChange => !!c);
+
+  const advances = [
+    ...advanceChanges(a.digits, b.digits),
+    ...advanceChanges(a.separators, b.separators),
+    ...advanceChanges(a.letters, b.letters),
+  ];
+
+  const inA = new Set(a.glyphs);
+  const inB = new Set(b.glyphs);
+  const added = b.glyphs.filter((c) => !inA.has(c));
+  const removed = a.glyphs.filter((c) => !inB.has(c));
+
+  return {
+    metrics,
+    advances,
+    added,
+    removed,
+    same: !metrics.length && !advances.length && !added.length && !removed.length,
+  };
+}
@@ -0,0 +1,141 @@
+import { Assets, Cache, type BitmapFont, type BitmapFontData } from "pixi.js";
+import type { DescriptorFacts } from "./descriptorLint";
+import type { FontEntry } from "./fonts";
+import type { PageMatch } from "./pages";
+import type { SourceFile } from "./zip";
+
+/**
+ * Every font loaded this session. A BitmapText finds its font through Pixi's
+ * `Cache` under `${fontFamily}-bitmap`, so the registry owns that key, the
+ * BitmapFont itself and the object URLs its pages were loaded from - removing
+ * a font releases all three. Two drops sharing a face name get distinct
+ * families ("Fira", "Fira (2)") instead of overwriting each other.
+ */
+
+interface Registered {
+  entry: FontEntry;
+  font: BitmapFont;
+  urls: string[];
+}
+
+const registered = new Map<string, Registered>();
+const listeners = new Set<() => void>();
+let snapshot: FontEntry[] = [];
+let seq = 0;
+
+function emit(): void {
+  snapshot = Array.from(registered.values(), (r) => r.entry);
+  listeners.forEach((fn) => fn());
+}
+
+const cacheKey = (fontFamily: string) => `${fontFamily}-bitmap`;
+
+/** First family name not already claimed in Pixi's cache. */
+function uniqueFamily(family: string): string {
+  if (!Cache.has(cacheKey(family))) return family;
+  let n = 2;
+  while (Cache.has(cacheKey(`${family} (${n})`))) n++;
+  return `${family} (${n})`;
+}
+
+export interface RegisterOptions {
+  family: string;
+  /** object URLs the page textures were loaded from. */
+  urls: string[];
+  description: string;
+  storeId?: string;
+  source: FontSource;
+  pages: PageMatch[];
+  data: BitmapFontData;
+  facts: DescriptorFacts;
+}
+
+/** Everything a font was built from, so it can be rebuilt (page reassignment). */
+export interface FontSource {
+  descriptor: SourceFile;
+  /** images the pages can be matched or assigned from. */
+  candidates: SourceFile[];
+  /** page id -> path of a hand-assigned image. */
+  overrides: Record<number, string>;
+}
+
+function unusedImages(source: FontSource, pages: PageMatch[]): string[] {
+  const used = new Set(pages.map((p) => p.source));
+  return source.candidates.filter((c) => !used.has(c)).map((c) => c.path);
+}
+
+/** Install a parsed font under a unique family and track what it holds. */
+export function registerFont(font: BitmapFont, opts: RegisterOptions): FontEntry {
+  const fontFamily = uniqueFamily(opts.family);
+  Cache.set(cacheKey(fontFamily), font);
+  const entry: FontEntry = {
+    id: `dropped-${++seq}-${Date.now()}`,
+    label: fontFamily,
+    fontFamily,
+    description: opts.description,
+    storeId: opts.storeId,
+    source: opts.source,
+    pages: opts.pages,
+    unusedImages: unusedImages(opts.source, opts.pages),
+    data: opts.data,
+    facts: opts.facts,
+  };
+  registered.set(entry.id, { entry, font, urls: opts.urls });
+  emit();
+  return entry;
+}
+
+async function release(r: Registered): Promise<void> {
+  await Promise.all(r.urls.map((url) => Assets.unload(url)));
+  r.font.destroy();
+  r.urls.forEach((url) => URL.revokeObjectURL(url));
+}
+
+/**
+ * Swap a registered font for a rebuilt one under the same id and family (the
+ * old BitmapFont is released). The entry is a new object so views re-derive.
+ */
+export async function replaceFont(
+  id: string,
+  font: BitmapFont,
+  opts: Pick<RegisterOptions, "urls" | "source" | "pages">
+): Promise<FontEntry | undefined> {
+  const prev = registered.get(id);
+  if (!prev) return undefined;
+  const entry: FontEntry = {
+    ...prev.entry,
+    source: opts.source,
+    pages: opts.pages,
+    unusedImages: unusedImages(opts.source, opts.pages),
+  };
+  Cache.set(cacheKey(entry.fontFamily), font);
+  registered.set(id, { entry, font, urls: opts.urls });
+  await release(prev);
+  emit();
+  return entry;
+}
+
+/** Unload a font: cache entry, glyph + page textures, and its object URLs. */
+export async function removeFont(id: string): Promise<void> {
+  const r = registered.get(id);
+  if (!r) return;
+  registered.delete(id);
+  Cache.remove(cacheKey(r.entry.fontFamily));
+  await release(r);
+  emit();
+}
+
+/** The registered entry behind a BitmapText family, if it was dropped in. */
+export function findFontEntry(fontFamily: string): FontEntry | undefined {
+  return snapshot.find((e) => e.fontFamily === fontFamily);
+}
+
+/** Stable list for `useSyncExternalStore` - a new array only after a change. */
+export function listFonts(): FontEntry[] {
+  return snapshot;
+}
+
+export function subscribeFonts(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => listeners.delete(fn);
+}
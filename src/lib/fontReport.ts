@@ -0,0 +1,455 @@
+import type { BitmapFontData } from "pixi.js";
+import type { InkGlyph } from "./collision";
+import { CURRENCIES, CURRENCY_SYMBOLS } from "./currencies";
+import type { PageMatch } from "./pages";
+import { evaluateRules, type RuleOutcome, type RuleProfile, type Verdict } from "./rules";
+
+/**
+ * The font report itself - every check the validation panel shows, over plain
+ * glyph metrics rather than a loaded BitmapFont. Nothing here touches Pixi at
+ * runtime, so the same report is built in the app (from the installed font)
+ * and by the headless CLI (straight from BitmapFontData).
+ */
+
+export type Severity = "error" | "warn" | "info";
+
+/** One line of a report section that is a list of problems, not a metric. */
+export interface Finding {
+  id: string;
+  severity: Severity;
+  message: string;
+}
+
+/** What the checks read from a glyph - BitmapFontData chars fit as is. */
+export interface MetricGlyph extends InkGlyph {
+  yOffset: number;
+  height: number;
+}
+
+export interface FontMetrics {
+  chars: Record<string, MetricGlyph>;
+  lineHeight: number;
+  /** the size the metrics were authored at. */
+  size: number;
+}
+
+export interface GlyphCheck {
+  char: string;
+  label: string;
+  present: boolean;
+  advance: number | null;
+  width: number | null;
+}
+
+export interface JumpResult {
+  /** true when every present digit shares one advance width. */
+  isMono: boolean;
+  /** true when digits differ enough in width that a tick-up will jitter. */
+  willJump: boolean;
+  /** worst-case horizontal shift per digit change, in font px. */
+  jumpPx: number;
+  advances: { digit: string; advance: number; present: boolean }[];
+  minAdvance: number;
+  maxAdvance: number;
+  spread: number;
+  /** true when `spread` is past the profile's mono threshold. */
+  spreadJumps: boolean;
+  /** the two digits responsible for the widest gap, e.g. "1 vs 0". */
+  widestPair: string | null;
+  /**
+   * Widest range of kerning amounts within one layout context: digit->digit,
+   * or digit->separator / separator->digit for a single separator. Non-zero
+   * means the spacing around a digit changes as it cycles.
+   */
+  kerningSpread: number;
+  /** true when `kerningSpread` is past the profile's kerning threshold. */
+  kerningJumps: boolean;
+  /** non-zero kerning pairs among digits and digit/separator neighbours. */
+  kernedPairs: number;
+  /** the largest kerning amount in a context that has a spread. */
+  worstKernedPair: { pair: string; amount: number } | null;
+}
+
+export interface GlyphBox {
+  char: string;
+  /** glyph top / bottom measured down from the line top (yOffset, yOffset + height). */
+  top: number;
+  bottom: number;
+  height: number;
+}
+
+export interface VerticalResult {
+  /** every digit sits on one baseline and every separator is in its band. */
+  aligned: boolean;
+  /** digits sit on different baselines - the counter bounces as it ticks. */
+  willBounce: boolean;
+  /** the baseline most digits share (bottom edge, font px). */
+  baseline: number;
+  baselineSpread: number;
+  heightSpread: number;
+  /** the digit furthest from the shared baseline, e.g. "'7' (+3)". */
+  worstDigit: string | null;
+  digits: GlyphBox[];
+  /** separators sitting outside the band expected of them. */
+  outOfBand: { char: string; label: string; reason: string }[];
+}
+
+export interface FontReport {
+  fontFamily: string;
+  found: boolean;
+  glyphCount: number;
+  /** every char the font has, in code-point order. */
+  glyphs: string[];
+  lineHeight: number;
+  /** every digit 0-9 present - required to render a counter at all. */
+  canTick: boolean;
+  missingDigits: string[];
+  digits: GlyphCheck[];
+  separators: GlyphCheck[];
+  letters: GlyphCheck[];
+  jump: JumpResult;
+  vertical: VerticalResult;
+  /** page-image matching problems (unmatched, case/extension mismatch, unused). */
+  pages: Finding[];
+  /** structural lint of the descriptor against itself and its page images. */
+  descriptor: Finding[];
+  /** name of the rule profile the report was judged by. */
+  profile: string;
+  /** outcome of every enabled rule in the profile. */
+  rules: RuleOutcome[];
+  /** 0-100, minus a per-severity penalty for each failed rule. */
+  score: number;
+  verdict: Verdict;
+}
+
+/** Parsed descriptor data already has the shape the checks read. */
+export function metricsFromData(data: BitmapFontData): FontMetrics {
+  return { chars: data.chars, lineHeight: data.lineHeight, size: data.fontSize };
+}
+
+export function pageFindings(pages: PageMatch[], unusedImages: string[]): Finding[] {
+  const out: Finding[] = [];
+  for (const p of pages) {
+    const got = p.source?.path;
+    switch (p.kind) {
+      case "missing":
+        out.push({ id: `page-${p.id}-missing`, severity: "error", message: `Page ${p.id} "${p.declared}" has no matching image - its glyphs render blank.` });
+        break;
+      case "case":
+        out.push({ id: `page-${p.id}-case`, severity: "warn", message: `Page ${p.id} "${p.declared}" matched "${got}" only by ignoring letter case.` });
+        break;
+      case "extension":
+        out.push({ id: `page-${p.id}-ext`, severity: "warn", message: `Page ${p.id} declares "${p.declared}" but "${got}" was dropped - extension differs.` });
+        break;
+      case "manual":
+        out.push({ id: `page-${p.id}-manual`, severity: "info", message: `Page ${p.id} "${p.declared}" assigned by hand to "${got}".` });
+        break;
+    }
+  }
+  for (const path of unusedImages) {
+    out.push({ id: `unused-${path}`, severity: "warn", message: `Image "${path}" was dropped but no page uses it.` });
+  }
+  return out;
+}
+
+/**
+ * Characters that slot number displays commonly rely on - labels for the
+ * glyphs a rule profile asks for (the default profile requires the first six;
+ * signs matter only to signed formats, the currency signs to money formats).
+ */
+const SEPARATORS: { char: string; label: string }[] = [
+  { char: ",", label: "Comma (thousands)" },
+  { char: ".", label: "Period (decimal)" },
+  { char: "x", label: "Lowercase x (multiplier)" },
+  { char: "$", label: "Dollar sign" },
+  { char: "€", label: "Euro sign" },
+  { char: " ", label: "Space" },
+  { char: "+", label: "Plus sign" },
+  { char: "-", label: "Hyphen-minus" },
+  { char: "\u2212", label: "Minus sign (U+2212)" },
+  { char: "(", label: "Open parenthesis (accounting)" },
+  { char: ")", label: "Close parenthesis (accounting)" },
+  ...CURRENCY_SYMBOLS.filter((c) => c !== "$" && c !== "€").map((char) => ({
+    char,
+    label: `${Object.values(CURRENCIES).find((c) => c.symbol === char)!.name} sign`,
+  })),
+];
+
+const LETTERS: { char: string; label: string }[] = [
+  ..."WIN".split("").map((c) => ({ char: c, label: `'${c}' (WIN)` })),
+  ..."KMBT".split("").map((c) => ({ char: c, label: `'${c}' (abbrev)` })),
+];
+
+function labelFor(list: { char: string; label: string }[], char: string): string {
+  return list.find((s) => s.char === char)?.label ?? `'${char}'`;
+}
+
+function checkChar(font: FontMetrics, char: string, label: string): GlyphCheck {
+  const data = font.chars[char];
+  return {
+    char,
+    label,
+    present: !!data,
+    advance: data ? Math.round(data.xAdvance * 100) / 100 : null,
+    width: data ? Math.round(data.width * 100) / 100 : null,
+  };
+}
+
+/** Kerning the layout applies when `second` follows `first` (0 if none). */
+function kerningOf(font: FontMetrics, first: string, second: string): number {
+  return font.chars[second]?.kerning?.[first] ?? 0;
+}
+
+/**
+ * Kerning as it affects a counter: within each context (every digit->digit
+ * pair, and each separator's digit->sep / sep->digit pairs) the amounts must
+ * all be equal, otherwise cycling one digit moves its neighbours.
+ */
+function kerningCheck(font: FontMetrics, digits: string[], separators: string[]) {
+  const contexts: [string, string][][] = [digits.flatMap((a) => digits.map((b) => [a, b] as [string, string]))];
+  for (const sep of separators) {
+    contexts.push(digits.map((d) => [d, sep]));
+    contexts.push(digits.map((d) => [sep, d]));
+  }
+
+  let spread = 0;
+  let pairs = 0;
+  let worst: { pair: string; amount: number } | null = null;
+  for (const ctx of contexts) {
+    const amounts = ctx.map(([a, b]) => ({ a, b, amount: kerningOf(font, a, b) }));
+    const vals = amounts.map((k) => k.amount);
+    if (vals.length === 0) continue;
+    const ctxSpread = Math.max(...vals) - Math.min(...vals);
+    pairs += vals.filter((v) => v !== 0).length;
+    if (ctxSpread === 0) continue;
+    spread = Math.max(spread, ctxSpread);
+    for (const k of amounts) {
+      if (!worst || Math.abs(k.amount) > Math.abs(worst.amount)) {
+        worst = { pair: `'${k.a === " " ? "SP" : k.a}' -> '${k.b === " " ? "SP" : k.b}'`, amount: k.amount };
+      }
+    }
+  }
+  return { spread: Math.round(spread * 100) / 100, pairs, worst };
+}
+
+/**
+ * Where each separator should sit relative to the digits: on the baseline
+ * ("." "x" and currency signs like "€" "£"), hanging from it (","), spanning
+ * the full digit band ("$" and parentheses), or centred on it (signs).
+ */
+const SEPARATOR_BAND: Record<string, "baseline" | "descender" | "span" | "middle"> = {
+  ",": "descender",
+  ".": "baseline",
+  x: "baseline",
+  "€": "baseline",
+  $: "span",
+  "(": "span",
+  ")": "span",
+  "+": "middle",
+  "-": "middle",
+  "\u2212": "middle",
+  ...Object.fromEntries(CURRENCY_SYMBOLS.filter((c) => c !== "$").map((c) => [c, "baseline" as const])),
+};
+
+function glyphBox(font: FontMetrics, char: string): GlyphBox | null {
+  const c = font.chars[char];
+  if (!c) return null;
+  return { char, top: c.yOffset, bottom: c.yOffset + c.height, height: c.height };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function verticalCheck(font: FontMetrics, separators: string[], tolerance: number): VerticalResult {
+  const digits = "0123456789"
+    .split("")
+    .map((d) => glyphBox(font, d))
+    .filter((b): b is GlyphBox => !!b);
+
+  const bottoms = digits.map((d) => d.bottom);
+  const heights = digits.map((d) => d.height);
+  // the shared baseline is the bottom most digits agree on
+  const counts = new Map<number, number>();
+  bottoms.forEach((b) => counts.set(b, (counts.get(b) ?? 0) + 1));
+  const baseline = [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a), [0, 0])[0];
+
+  const baselineSpread = digits.length ? round2(Math.max(...bottoms) - Math.min(...bottoms)) : 0;
+  const heightSpread = digits.length ? round2(Math.max(...heights) - Math.min(...heights)) : 0;
+  const willBounce = digits.length > 1 && baselineSpread > tolerance;
+
+  let worstDigit: string | null = null;
+  if (willBounce) {
+    const worst = digits.reduce((a, b) => (Math.abs(b.bottom - baseline) > Math.abs(a.bottom - baseline) ? b : a));
+    const off = worst.bottom - baseline;
+    worstDigit = `'${worst.char}' (${off > 0 ? "+" : ""}${round2(off)})`;
+  }
+
+  const digitTop = digits.length ? Math.min(...digits.map((d) => d.top)) : 0;
+  const digitHeight = digits.length ? baseline - digitTop : 0;
+  const tol = Math.max(1, digitHeight * 0.1);
+  const outOfBand: VerticalResult["outOfBand"] = [];
+  for (const char of separators) {
+    const band = SEPARATOR_BAND[char];
+    const box = band && digits.length ? glyphBox(font, char) : null;
+    if (!box || box.height === 0) continue;
+    const off = round2(box.bottom - baseline);
+    let reason: string | null = null;
+    if (band === "descender" && box.bottom < baseline - tol) {
+      reason = `sits ${-off}px above the baseline (should hang from it)`;
+    } else if (band === "baseline" && Math.abs(box.bottom - baseline) > tol) {
+      reason = `bottom is ${Math.abs(off)}px ${off < 0 ? "above" : "below"} the digit baseline`;
+    } else if (band === "span" && (box.top > digitTop + tol || box.bottom < baseline - tol)) {
+      reason = "does not span the digit height";
+    } else if (band === "middle" && Math.abs((box.top + box.bottom - digitTop - baseline) / 2) > tol) {
+      const mid = round2((box.top + box.bottom - digitTop - baseline) / 2);
+      reason = `centre is ${Math.abs(mid)}px ${mid < 0 ? "above" : "below"} the digits' middle`;
+    }
+    if (reason) outOfBand.push({ char, label: labelFor(SEPARATORS, char), reason });
+  }
+
+  return {
+    aligned: !willBounce && outOfBand.length === 0,
+    willBounce,
+    baseline,
+    baselineSpread,
+    heightSpread,
+    worstDigit,
+    digits,
+    outOfBand,
+  };
+}
+
+/** The report for a font that is not installed / could not be read. */
+export function emptyReport(fontFamily: string, profile: RuleProfile): FontReport {
+  return {
+    fontFamily,
+    found: false,
+    glyphCount: 0,
+    glyphs: [],
+    lineHeight: 0,
+    canTick: false,
+    missingDigits: "0123456789".split(""),
+    digits: [],
+    separators: [],
+    letters: [],
+    jump: {
+      isMono: false,
+      willJump: false,
+      jumpPx: 0,
+      advances: [],
+      minAdvance: 0,
+      maxAdvance: 0,
+      spread: 0,
+      spreadJumps: false,
+      widestPair: null,
+      kerningSpread: 0,
+      kerningJumps: false,
+      kernedPairs: 0,
+      worstKernedPair: null,
+    },
+    vertical: {
+      aligned: false,
+      willBounce: false,
+      baseline: 0,
+      baselineSpread: 0,
+      heightSpread: 0,
+      worstDigit: null,
+      digits: [],
+      outOfBand: [],
+    },
+    pages: [],
+    descriptor: [],
+    profile: profile.name,
+    rules: [],
+    score: 0,
+    verdict: "fail",
+  };
+}
+
+/**
+ * Run every check over `font`. Page and descriptor findings depend on where
+ * the font came from, so the caller works those out and passes them in.
+ */
+export function buildReport(
+  fontFamily: string,
+  font: FontMetrics,
+  findings: { pages: Finding[]; descriptor: Finding[] },
+  profile: RuleProfile
+): FontReport {
+  const digits: GlyphCheck[] = [];
+  for (let i = 0; i <= 9; i++) {
+    const c = String(i);
+    digits.push(checkChar(font, c, `Digit ${c}`));
+  }
+
+  const advances = digits.map((d) => ({
+    digit: d.char,
+    advance: d.advance ?? 0,
+    present: d.present,
+  }));
+  const present = advances.filter((a) => a.present);
+  const vals = present.map((a) => a.advance);
+  const minAdvance = vals.length ? Math.min(...vals) : 0;
+  const maxAdvance = vals.length ? Math.max(...vals) : 0;
+  const spread = Math.round((maxAdvance - minAdvance) * 100) / 100;
+  const kern = kerningCheck(
+    font,
+    present.map((a) => a.digit),
+    profile.separators.filter((c) => font.chars[c])
+  );
+  // tolerances come from the profile (default: sub-pixel - rasterised fonts can round by a fraction)
+  const monoTol = profile.rules.mono.threshold;
+  const kernTol = profile.rules.kerning.threshold;
+  const isMono = present.length > 1 && spread <= monoTol && kern.spread <= kernTol;
+  const willJump = present.length > 1 && (spread > monoTol || kern.spread > kernTol);
+
+  let widestPair: string | null = null;
+  if (spread > monoTol) {
+    const widest = present.reduce((a, b) => (b.advance > a.advance ? b : a));
+    const narrowest = present.reduce((a, b) => (b.advance < a.advance ? b : a));
+    widestPair = `'${narrowest.digit}' (${narrowest.advance}) -> '${widest.digit}' (${widest.advance})`;
+  }
+
+  const missingDigits = digits.filter((d) => !d.present).map((d) => d.char);
+
+  const report: FontReport = {
+    fontFamily,
+    found: true,
+    glyphCount: Object.keys(font.chars).length,
+    glyphs: Object.keys(font.chars).sort((a, b) => a.codePointAt(0)! - b.codePointAt(0)!),
+    lineHeight: Math.round(font.lineHeight * 100) / 100,
+    canTick: missingDigits.length === 0,
+    missingDigits,
+    digits,
+    separators: profile.separators.map((c) => checkChar(font, c, labelFor(SEPARATORS, c))),
+    letters: profile.letters.map((c) => checkChar(font, c, labelFor(LETTERS, c))),
+    jump: {
+      isMono,
+      willJump,
+      // advance and kerning shifts compound when both vary
+      jumpPx: Math.round((spread + kern.spread) * 100) / 100,
+      advances,
+      minAdvance,
+      maxAdvance,
+      spread,
+      spreadJumps: present.length > 1 && spread > monoTol,
+      widestPair,
+      kerningSpread: kern.spread,
+      kerningJumps: present.length > 1 && kern.spread > kernTol,
+      kernedPairs: kern.pairs,
+      worstKernedPair: kern.worst,
+    },
+    vertical: verticalCheck(font, profile.separators, profile.rules.baseline.threshold),
+    pages: findings.pages,
+    descriptor: findings.descriptor,
+    profile: profile.name,
+    rules: [],
+    score: 0,
+    verdict: "pass",
+  };
+  return { ...report, ...evaluateRules(report, profile) };
+}
+
+/** Which of `chars` the font lacks (a missing space counts: the layout skips it and the gap collapses). */
+export function charsMissing(font: FontMetrics, chars: string[]): string[] {
+  return chars.filter((c) => !font.chars[c]);
+}
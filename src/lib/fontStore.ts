@@ -0,0 +1,89 @@
+import type { SourceFile } from "./zip";
+
+/**
+ * IndexedDB persistence for dropped fonts. One record per installed font: the
+ * raw descriptor plus the page images it resolved to, exactly as dropped (File
+ * objects survive structured clone), so a reload re-parses them the same way.
+ */
+
+const DB_NAME = "bfb-fonts";
+const DB_VERSION = 1;
+const STORE = "fonts";
+
+export interface StoredFont {
+  id: string;
+  label: string;
+  savedAt: number;
+  /** bytes across every file in the record. */
+  size: number;
+  /** descriptor first, then its page images. */
+  files: SourceFile[];
+  /** page id -> path of a hand-assigned image (see pages.ts). */
+  pageOverrides?: Record<number, string>;
+}
+
+export interface StoreUsage {
+  count: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveFont(label: string, files: SourceFile[]): Promise<string> {
+  const record: StoredFont = {
+    id: `stored-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    savedAt: Date.now(),
+    size: files.reduce((n, s) => n + s.file.size, 0),
+    files,
+  };
+  await run("readwrite", (s) => s.put(record));
+  return record.id;
+}
+
+export async function saveOverrides(id: string, pageOverrides: Record<number, string>): Promise<void> {
+  const record = await run<StoredFont | undefined>("readonly", (s) => s.get(id));
+  if (!record) return;
+  await run("readwrite", (s) => s.put({ ...record, pageOverrides }));
+}
+
+/** Every saved font, oldest first. */
+export async function loadSavedFonts(): Promise<StoredFont[]> {
+  const all = await run<StoredFont[]>("readonly", (s) => s.getAll());
+  return all.sort((a, b) => a.savedAt - b.savedAt);
+}
+
+export async function forgetFont(id: string): Promise<void> {
+  await run("readwrite", (s) => s.delete(id));
+}
+
+export async function forgetAllFonts(): Promise<void> {
+  await run("readwrite", (s) => s.clear());
+}
+
+export async function storeUsage(): Promise<StoreUsage> {
+  const all = await loadSavedFonts();
+  return { count: all.length, bytes: all.reduce((n, r) => n + r.size, 0) };
+}
@@ -2,10 +2,19 @@ import {
   Assets,
   BitmapFont,
   Cache,
+  Texture,
   bitmapFontTextParser,
   bitmapFontXMLStringParser,
+  type ALPHA_MODES,
   type BitmapFontData,
 } from "pixi.js";
+import { bitmapFontBinaryParser } from "./bmfontBinary";
+import { bitmapFontJSONParser } from "./bmfontJson";
+import { listFonts, registerFont, removeFont, replaceFont, type FontSource } from "./fontRegistry";
+import { forgetFont, loadSavedFonts, saveFont, saveOverrides, type StoredFont } from "./fontStore";
+import { readDescriptorFacts, type DescriptorFacts } from "./descriptorLint";
+import { dirName, resolvePages, type PageMatch } from "./pages";
+import { expandArchives, type SourceFile } from "./zip";
 
 export interface FontEntry {
   id: string;
@@ -13,60 +22,258 @@ export interface FontEntry {
   /** The fontFamily string to pass to BitmapText style. */
   fontFamily: string;
   description: string;
+  /** IndexedDB record this font is saved under (absent if saving failed). */
+  storeId?: string;
+  source: FontSource;
+  /** how each declared page was matched to an image (see pages.ts). */
+  pages: PageMatch[];
+  /** paths of candidate images no page uses. */
+  unusedImages: string[];
+  data: BitmapFontData;
+  facts: DescriptorFacts;
 }
 
 /**
- * No fonts ship with the app. A bitmap font (Angel-Code .fnt / .xml + page
- * image) is only ever provided by the user via drag-and-drop.
+ * No fonts ship with the app. A bitmap font (Angel-Code .fnt / .xml / .json +
+ * page image, text or binary .fnt, loose or zipped) is only ever provided by
+ * the user via drag-and-drop.
  */
 
+const DESCRIPTOR_RE = /\.(fnt|xml|json)$/i;
+const IMAGE_RE = /\.(png|jpe?g|webp)$/i;
+
+/**
+ * How page textures are uploaded. Pixi's default treats images as straight
+ * alpha and premultiplies them; forcing another mode shows how an atlas
+ * exported the other way renders (see alphaAnalysis.ts).
+ */
+let alphaMode: ALPHA_MODES = "premultiply-alpha-on-upload";
+
+export function getAlphaMode(): ALPHA_MODES {
+  return alphaMode;
+}
+
 /** Look up the resolved (installed) BitmapFont by the family used in a style. */
 export function getInstalledFont(fontFamily: string): BitmapFont | undefined {
   return Cache.get<BitmapFont>(`${fontFamily}-bitmap`);
 }
 
-function readText(file: File): Promise<string> {
-  return file.text();
+export interface ParsedDescriptor {
+  data: BitmapFontData;
+  /** what the lint needs that BitmapFontData does not keep. */
+  facts: DescriptorFacts;
+}
+
+/** Decode a descriptor: binary BMFont v3 first, then the text, XML and JSON forms. */
+function decodeDescriptor(buffer: ArrayBuffer): BitmapFontData {
+  if (bitmapFontBinaryParser.test(buffer)) return bitmapFontBinaryParser.parse(buffer);
+  const raw = new TextDecoder().decode(buffer);
+  if (bitmapFontTextParser.test(raw)) return bitmapFontTextParser.parse(raw);
+  if (bitmapFontXMLStringParser.test(raw)) return bitmapFontXMLStringParser.parse(raw);
+  if (bitmapFontJSONParser.test(raw)) return bitmapFontJSONParser.parse(raw);
+  throw new Error("Unrecognised bitmap-font descriptor format.");
+}
+
+async function parseDescriptor(file: File): Promise<ParsedDescriptor> {
+  const buffer = await file.arrayBuffer();
+  const data = decodeDescriptor(buffer);
+  return { data, facts: readDescriptorFacts(buffer, bitmapFontBinaryParser.test(buffer)) };
+}
+
+interface BuiltFont {
+  font: BitmapFont;
+  family: string;
+  urls: string[];
+  pages: PageMatch[];
+}
+
+/** Load the page textures a resolution points at and build the BitmapFont. */
+async function buildFont(data: BitmapFontData, source: FontSource, mode = alphaMode): Promise<BuiltFont> {
+  const { descriptor, candidates, overrides } = source;
+  const pages = resolvePages(descriptor.path, data.pages, candidates, overrides);
+  const textures: Texture[] = [];
+  const urls: string[] = [];
+  for (const page of pages) {
+    if (!page.source) {
+      // no image for this page - its glyphs render blank, reported as a warning
+      textures[page.id] = Texture.EMPTY;
+      continue;
+    }
+    const url = URL.createObjectURL(page.source.file);
+    urls.push(url);
+    const format = page.source.file.name.split(".").pop();
+    textures[page.id] = await Assets.load({ src: url, loadParser: "loadTextures", format, data: { alphaMode: mode } });
+  }
+
+  const name = descriptor.file.name;
+  const family = data.fontFamily || name.replace(DESCRIPTOR_RE, "");
+  return { font: new BitmapFont({ data, textures }, name), family, urls, pages };
+}
+
+/**
+ * Build and register one font. Newly dropped fonts are also saved to IndexedDB
+ * (descriptor + candidate images); restored ones pass the record they came from.
+ */
+async function installFont(
+  { data, facts }: ParsedDescriptor,
+  source: FontSource,
+  restoredFrom?: string
+): Promise<FontEntry> {
+  const built = await buildFont(data, source);
+
+  let storeId = restoredFrom;
+  if (!storeId) {
+    try {
+      storeId = await saveFont(built.family, [source.descriptor, ...source.candidates]);
+    } catch {
+      // private mode / quota - the font still works, it just won't survive a
+      // reload; the entry is left without a storeId so the caller can say so
+    }
+  }
+
+  return registerFont(built.font, {
+    family: built.family,
+    urls: built.urls,
+    storeId,
+    source,
+    pages: built.pages,
+    data,
+    facts,
+    description: `Loaded from ${source.descriptor.path} + ${data.pages.length} page image(s).`,
+  });
+}
+
+/** Fonts that loaded, and one message for each that did not. */
+export interface LoadResult {
+  entries: FontEntry[];
+  failures: string[];
 }
 
 /**
- * Parse a dragged Angel-Code bitmap font (.fnt / .xml) plus its page image(s)
- * and register it so BitmapText can use it by fontFamily.
+ * Parse dragged Angel-Code bitmap font(s) (.fnt / .xml / .json, loose, in
+ * folders or inside a .zip) plus page image(s) and register each so BitmapText can use it
+ * by fontFamily (see fontRegistry). Every descriptor in the drop yields one
+ * font; one that fails is skipped and listed in `failures` as long as another
+ * succeeds.
  */
-export async function parseDroppedFont(files: File[]): Promise<FontEntry> {
-  const descriptor = files.find((f) => /\.(fnt|xml)$/i.test(f.name));
-  const images = files.filter((f) => /\.(png|jpe?g|webp)$/i.test(f.name));
-  if (!descriptor) throw new Error("Drop a .fnt or .xml descriptor together with its page image(s).");
+export async function parseDroppedFont(files: SourceFile[]): Promise<LoadResult> {
+  const sources = await expandArchives(files);
+  const descriptors = sources.filter((s) => DESCRIPTOR_RE.test(s.path));
+  const images = sources.filter((s) => IMAGE_RE.test(s.path));
+  if (descriptors.length === 0) {
+    throw new Error("Drop a .fnt, .xml or .json descriptor (or a .zip of one) together with its page image(s).");
+  }
   if (images.length === 0) throw new Error("Missing the font page image (.png/.webp).");
 
-  const raw = await readText(descriptor);
-  let data: BitmapFontData;
-  if (bitmapFontTextParser.test(raw)) {
-    data = bitmapFontTextParser.parse(raw);
-  } else if (bitmapFontXMLStringParser.test(raw)) {
-    data = bitmapFontXMLStringParser.parse(raw);
-  } else {
-    throw new Error("Unrecognised bitmap-font descriptor format.");
+  const failures: string[] = [];
+  const fail = (descriptor: SourceFile, e: unknown) => failures.push(`${descriptor.path}: ${(e as Error).message}`);
+  const parsed: { descriptor: SourceFile; parsed: ParsedDescriptor; pages: PageMatch[] }[] = [];
+  for (const descriptor of descriptors) {
+    try {
+      const p = await parseDescriptor(descriptor.file);
+      parsed.push({ descriptor, parsed: p, pages: resolvePages(descriptor.path, p.data.pages, images) });
+    } catch (e) {
+      fail(descriptor, e);
+    }
   }
 
-  const byName = new Map(images.map((f) => [f.name, f] as const));
-  const textures = [];
-  for (const page of data.pages) {
-    const base = page.file.split(/[\\/]/).pop() || page.file;
-    const file = byName.get(base) || byName.get(page.file) || images[0];
-    const url = URL.createObjectURL(file);
-    const tex = await Assets.load({ src: url, loadParser: "loadTextures", format: base.split(".").pop() });
-    textures.push(tex);
+  // An image no descriptor claims is a candidate (and an "unused" warning) for
+  // every font in its folder; an image another font claims is not.
+  const claimed = new Set(parsed.flatMap((p) => p.pages.map((m) => m.source)));
+
+  const entries: FontEntry[] = [];
+  for (const { descriptor, parsed: p, pages } of parsed) {
+    const own = pages.flatMap((m) => (m.source ? [m.source] : []));
+    const spare = images.filter((i) => !claimed.has(i) && dirName(i.path) === dirName(descriptor.path));
+    const candidates = Array.from(new Set([...own, ...spare]));
+    try {
+      entries.push(await installFont(p, { descriptor, candidates, overrides: {} }));
+    } catch (e) {
+      fail(descriptor, e);
+    }
   }
+  if (entries.length === 0) throw new Error(failures.join("; "));
+  return { entries, failures };
+}
+
+/** Re-install every font saved in IndexedDB by an earlier session. */
+export async function restoreSavedFonts(): Promise<LoadResult> {
+  let records: StoredFont[];
+  try {
+    records = await loadSavedFonts();
+  } catch (e) {
+    return { entries: [], failures: [`saved fonts could not be read (${(e as Error).message})`] };
+  }
+  const entries: FontEntry[] = [];
+  const failures: string[] = [];
+  for (const r of records) {
+    const [descriptor, ...candidates] = r.files;
+    try {
+      const parsed = await parseDescriptor(descriptor.file);
+      const source = { descriptor, candidates, overrides: r.pageOverrides ?? {} };
+      entries.push(await installFont(parsed, source, r.id));
+    } catch (e) {
+      failures.push(`${r.label}: ${(e as Error).message}`);
+    }
+  }
+  return { entries, failures };
+}
 
-  const family = data.fontFamily || descriptor.name.replace(/\.(fnt|xml)$/i, "");
-  const font = new BitmapFont({ data, textures }, descriptor.name);
-  Cache.set(`${family}-bitmap`, font);
+/**
+ * Point one page of a loaded font at a specific candidate image and rebuild the
+ * font around it. The choice is remembered with the saved copy.
+ */
+export async function assignPage(entry: FontEntry, pageId: number, imagePath: string): Promise<FontEntry | undefined> {
+  const source: FontSource = { ...entry.source, overrides: { ...entry.source.overrides, [pageId]: imagePath } };
+  const built = await buildFont(entry.data, source);
+  const next = await replaceFont(entry.id, built.font, { urls: built.urls, source, pages: built.pages });
+  if (entry.storeId) await saveOverrides(entry.storeId, source.overrides).catch(() => undefined);
+  return next;
+}
+
+/** The alpha-mode switch in flight; each new one waits for it. */
+let alphaSwitch: Promise<void> = Promise.resolve();
+
+/** Free a font that was built but never registered. */
+async function discardFont(built: BuiltFont): Promise<void> {
+  await Promise.all(built.urls.map((url) => Assets.unload(url)));
+  built.font.destroy();
+  built.urls.forEach((url) => URL.revokeObjectURL(url));
+}
+
+/**
+ * Switch the texture alpha mode and rebuild every loaded font's pages with it.
+ * Switches run one at a time, and every font is rebuilt before any is swapped
+ * in, so a failed build leaves all of them - and getAlphaMode() - on the old
+ * mode rather than a mix of two.
+ */
+export function setAlphaMode(mode: ALPHA_MODES): Promise<void> {
+  const run = alphaSwitch.then(async () => {
+    if (mode === alphaMode) return;
+    const rebuilt: { entry: FontEntry; built: BuiltFont }[] = [];
+    try {
+      for (const entry of listFonts()) rebuilt.push({ entry, built: await buildFont(entry.data, entry.source, mode) });
+    } catch (e) {
+      await Promise.all(rebuilt.map((r) => discardFont(r.built).catch(() => undefined)));
+      throw e;
+    }
+    // replaceFont registers the new font before releasing the old one, so a
+    // failed release still leaves the swap done - finish the rest first
+    let releaseError: unknown = null;
+    for (const { entry, built } of rebuilt) {
+      await replaceFont(entry.id, built.font, { urls: built.urls, source: entry.source, pages: built.pages }).catch(
+        (e) => (releaseError ??= e)
+      );
+    }
+    alphaMode = mode;
+    if (releaseError) throw releaseError;
+  });
+  alphaSwitch = run.catch(() => undefined);
+  return run;
+}
 
-  return {
-    id: `dropped-${family}-${Date.now()}`,
-    label: family,
-    fontFamily: family,
-    description: `Loaded from ${descriptor.name} + ${images.length} page image(s).`,
-  };
+/** Drop a font from the bench: unload it and forget its saved copy. */
+export async function unloadFont(entry: FontEntry): Promise<void> {
+  await removeFont(entry.id);
+  if (entry.storeId) await forgetFont(entry.storeId).catch(() => undefined);
 }
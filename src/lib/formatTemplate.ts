@@ -0,0 +1,163 @@
+import type { Digits } from "./amount";
+
+/**
+ * Custom number formats as a one-line template, so a new format does not need
+ * a new FormatKind. Text outside braces is printed as-is; the one `{...}`
+ * field is a picture of the number, ICU-style:
+ *
+ *   0   a digit that is always shown (zero padding)
+ *   #   a digit shown only when needed
+ *   ,   a grouping position - the gap to the decimal point sets the group
+ *       size, the gap to an earlier `,` a second size (`#,##,##0` is lakh)
+ *   .   the decimal point; `0`s after it are fixed decimals, `#`s trim
+ *
+ * `,` and `.` only mark positions - the printed characters default to "," and
+ * "." and are set with `;group=` / `;decimal=` after the picture (a single
+ * char, or `space`, `nbsp`, `thin`, `nnbsp`, `none`). `{{` and `}}` print a
+ * literal brace.
+ *
+ *   {#,##0.00} WIN                   12,345.00 WIN
+ *   €{#,##0.00;group=.;decimal=,}    €12.345,00
+ *   {000000}                         012345
+ *   {#,##0.0#;group=thin}            12 345.5
+ */
+
+export interface FormatTemplate {
+  prefix: string;
+  suffix: string;
+  /** integer digits always shown (zero-padded). */
+  minInt: number;
+  /** digits per group nearest the decimal point; 0 = no grouping. */
+  groupSize: number;
+  /** size of the groups further left (lakh grouping); equals groupSize when unset. */
+  secondaryGroupSize: number;
+  group: string;
+  decimal: string;
+  minFrac: number;
+  maxFrac: number;
+}
+
+/** Longest fraction a template may ask for (8 covers crypto balances). */
+const MAX_FRAC = 8;
+
+const NAMED_CHARS: Record<string, string> = {
+  space: " ",
+  nbsp: "\u00a0",
+  thin: "\u2009",
+  nnbsp: "\u202f",
+  none: "",
+};
+
+/** Split a template into prefix, field body and suffix, resolving {{ and }}. */
+function splitTemplate(source: string): { prefix: string; body: string; suffix: string } {
+  const text = ["", ""];
+  let body: string | null = null;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if ((c === "{" || c === "}") && source[i + 1] === c) {
+      text[body === null ? 0 : 1] += c;
+      i++;
+    } else if (c === "{") {
+      if (body !== null) throw new Error("Only one number field is allowed (use {{ or }} for a literal brace).");
+      const close = source.indexOf("}", i);
+      if (close < 0) throw new Error("The number field is missing its closing }.");
+      body = source.slice(i + 1, close);
+      i = close;
+    } else if (c === "}") {
+      throw new Error("Unmatched } - use }} for a literal brace.");
+    } else {
+      text[body === null ? 0 : 1] += c;
+    }
+  }
+  if (body === null) throw new Error("A template needs one number field in braces, e.g. {#,##0.00}.");
+  return { prefix: text[0], body, suffix: text[1] };
+}
+
+function readChar(name: string, value: string): string {
+  if (value in NAMED_CHARS) return NAMED_CHARS[value];
+  if ([...value].length !== 1) throw new Error(`${name}= takes one character or space/nbsp/thin/nnbsp/none, not "${value}".`);
+  return value;
+}
+
+/** Parse a template; throws an Error describing the first problem. */
+export function parseTemplate(source: string): FormatTemplate {
+  const { prefix, body, suffix } = splitTemplate(source);
+  const [rawPicture, ...mods] = body.split(";");
+  const picture = rawPicture.trim();
+  if (!/^[#0,]*(\.[0#]*)?$/.test(picture) || !/[0#]/.test(picture)) {
+    throw new Error(`"${rawPicture}" is not a number picture - use 0, #, "," and one ".".`);
+  }
+  const [intPart, fracPart = ""] = picture.split(".");
+  if (/#.*0/.test(fracPart)) throw new Error("Fixed decimals (0) must come before trimmed ones (#).");
+  if (fracPart.length > MAX_FRAC) throw new Error(`At most ${MAX_FRAC} decimals.`);
+
+  const commas = [...intPart.matchAll(/,/g)].map((m) => m.index!);
+  const lastGap = commas.length ? intPart.length - commas[commas.length - 1] - 1 : 0;
+  const prevGap = commas.length > 1 ? commas[commas.length - 1] - commas[commas.length - 2] - 1 : lastGap;
+  if (commas.length && lastGap === 0) throw new Error("A grouping \",\" needs digits after it.");
+
+  const t: FormatTemplate = {
+    prefix,
+    suffix,
+    minInt: (intPart.match(/0/g) ?? []).length,
+    groupSize: lastGap,
+    secondaryGroupSize: prevGap || lastGap,
+    group: ",",
+    decimal: ".",
+    minFrac: (fracPart.match(/0/g) ?? []).length,
+    maxFrac: fracPart.length,
+  };
+  for (const mod of mods) {
+    const [key, ...value] = mod.split("=");
+    const name = key.trim();
+    if (name === "group") t.group = readChar(name, value.join("="));
+    else if (name === "decimal") t.decimal = readChar(name, value.join("="));
+    else throw new Error(`Unknown option "${name}" - use group= or decimal=.`);
+  }
+  return t;
+}
+
+const parsed = new Map<string, FormatTemplate | null>();
+
+/** Cached parse for the render path; null when the template is invalid. */
+export function compileTemplate(source: string): FormatTemplate | null {
+  if (!parsed.has(source)) {
+    try {
+      parsed.set(source, parseTemplate(source));
+    } catch {
+      parsed.set(source, null);
+    }
+  }
+  return parsed.get(source)!;
+}
+
+function groupDigits(digits: string, t: FormatTemplate): string {
+  if (!t.groupSize || digits.length <= t.groupSize) return digits;
+  const groups = [digits.slice(-t.groupSize)];
+  let rest = digits.slice(0, -t.groupSize);
+  while (rest.length > t.secondaryGroupSize) {
+    groups.unshift(rest.slice(-t.secondaryGroupSize));
+    rest = rest.slice(0, -t.secondaryGroupSize);
+  }
+  if (rest) groups.unshift(rest);
+  return groups.join(t.group);
+}
+
+/** Format a value's digits (its sign is ignored); decimals are truncated like the built-in kinds. */
+export function formatWithTemplate(value: Digits, t: FormatTemplate): string {
+  const int = value.int;
+  let frac = value.frac.padEnd(t.maxFrac, "0").slice(0, t.maxFrac);
+  while (frac.length > t.minFrac && frac.endsWith("0")) frac = frac.slice(0, -1);
+
+  const intDigits = int === "0" && t.minInt === 0 && frac ? "" : int.padStart(t.minInt, "0");
+  const number = groupDigits(intDigits, t) + (frac ? t.decimal + frac : "");
+  return t.prefix + number + t.suffix;
+}
+
+/** Every glyph a template can emit: digits, its text, and the separators it uses. */
+export function templateChars(t: FormatTemplate): string[] {
+  const chars = [..."0123456789", ...t.prefix, ...t.suffix];
+  if (t.groupSize && t.group) chars.push(t.group);
+  if (t.maxFrac && t.decimal) chars.push(t.decimal);
+  return Array.from(new Set(chars));
+}
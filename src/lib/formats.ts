@@ -1,3 +1,8 @@
+import { toDigits, type Amount, type Digits } from "./amount";
+import { DEFAULT_MONEY, moneyChars, resolveMoney, type MoneyFormat } from "./currencies";
+import { DEFAULT_ODOMETER, padCells, padCount, type OdometerFormat } from "./odometer";
+import { compileTemplate, formatWithTemplate, templateChars } from "./formatTemplate";
+
 export type FormatKind =
   | "int"
   | "comma"
@@ -10,77 +15,276 @@ export type FormatKind =
   | "suffixWin"
   | "spaced"
   | "euro"
-  | "credits";
+  | "credits"
+  | "locale"
+  | "template"
+  | "money"
+  | "odometer";
+
+/** Settings for the `locale` kind: grouping, decimals and symbols come from Intl. */
+export interface LocaleFormat {
+  /** BCP 47 tag, e.g. "fr-FR" or "hi-IN". */
+  locale: string;
+  /** ISO 4217 code for a currency display; omit for a plain number. */
+  currency?: string;
+  /** fraction digits; defaults to the currency's own (0 for a plain number). */
+  decimals?: number;
+}
+
+/**
+ * How signs are shown: `clamp` keeps the old behaviour (negatives read as 0),
+ * `negative` marks losses only, `explicit` also puts "+" on gains (delta
+ * popups), `accounting` wraps losses in parentheses.
+ */
+export type SignMode = "clamp" | "negative" | "explicit" | "accounting";
+
+/** The minus glyph: ASCII hyphen-minus or the typographic U+2212. */
+export type MinusGlyph = "-" | "\u2212";
+
+export const SIGN_MODES: Record<SignMode, { label: string; sample: string }> = {
+  clamp: { label: "Unsigned (negatives as 0)", sample: "1,250" },
+  negative: { label: "Minus on losses", sample: "-1,250" },
+  explicit: { label: "Explicit +/-", sample: "+1,250" },
+  accounting: { label: "Accounting (parentheses)", sample: "(1,250)" },
+};
+
+/** Per-preset settings the kinds that need them read (see Preset). */
+export interface FormatOptions {
+  locale?: LocaleFormat;
+  /** source of a `template` format (see formatTemplate.ts). */
+  template?: string;
+  /** currency of a `money` format (see currencies.ts). */
+  money?: MoneyFormat;
+  /** cells and pad glyph of an `odometer` format (see odometer.ts). */
+  odometer?: OdometerFormat;
+  /** defaults to `clamp`. */
+  sign?: SignMode;
+  /** defaults to "-"; locale formats use their locale's own sign. */
+  minus?: MinusGlyph;
+}
+
+export const DEFAULT_LOCALE_FORMAT: LocaleFormat = { locale: "de-DE", currency: "EUR" };
+export const DEFAULT_TEMPLATE = "{#,##0.00} CR";
 
 export interface FormatMeta {
   label: string;
   /** Characters (beyond 0-9) that the format can emit - used by validation. */
   extraChars: string[];
+  /** decimals shown, and so the minor unit the counter ticks in. */
+  decimals: number;
   sample: string;
 }
 
 export const FORMAT_META: Record<FormatKind, FormatMeta> = {
-  int: { label: "Integer", extraChars: [], sample: "12345" },
-  comma: { label: "Comma grouped", extraChars: [","], sample: "12,345" },
-  currency: { label: "Currency (2dp)", extraChars: [",", "."], sample: "12,345.00" },
-  currencySign: { label: "USD $ prefix", extraChars: ["$", ",", "."], sample: "$12,345.00" },
-  decimals2: { label: "2 decimals", extraChars: ["."], sample: "12345.00" },
-  multiplier: { label: "Multiplier x (2dp)", extraChars: [".", "x"], sample: "12.50x" },
-  multiplierInt: { label: "Multiplier x (int)", extraChars: ["x"], sample: "125x" },
-  abbrev: { label: "Abbreviated K/M/B", extraChars: [".", "K", "M", "B"], sample: "1.2M" },
-  suffixWin: { label: "WIN suffix", extraChars: [",", " ", "W", "I", "N"], sample: "12,345 WIN" },
-  spaced: { label: "Thin-space grouped", extraChars: [" "], sample: "12 345" },
-  euro: { label: "EUR € suffix", extraChars: ["€", ",", "."], sample: "12.345,00€" },
-  credits: { label: "CREDITS suffix", extraChars: [",", " ", "C", "R", "E", "D", "I", "T", "S"], sample: "12,345 CREDITS" },
+  int: { label: "Integer", extraChars: [], decimals: 0, sample: "12345" },
+  comma: { label: "Comma grouped", extraChars: [","], decimals: 0, sample: "12,345" },
+  currency: { label: "Currency (2dp)", extraChars: [",", "."], decimals: 2, sample: "12,345.00" },
+  currencySign: { label: "USD $ prefix", extraChars: ["$", ",", "."], decimals: 2, sample: "$12,345.00" },
+  decimals2: { label: "2 decimals", extraChars: ["."], decimals: 2, sample: "12345.00" },
+  multiplier: { label: "Multiplier x (2dp)", extraChars: [".", "x"], decimals: 2, sample: "12.50x" },
+  multiplierInt: { label: "Multiplier x (int)", extraChars: ["x"], decimals: 0, sample: "125x" },
+  abbrev: { label: "Abbreviated K/M/B/T", extraChars: [".", "K", "M", "B", "T"], decimals: 0, sample: "1.2M" },
+  suffixWin: { label: "WIN suffix", extraChars: [",", " ", "W", "I", "N"], decimals: 0, sample: "12,345 WIN" },
+  spaced: { label: "Thin-space grouped", extraChars: [" "], decimals: 0, sample: "12 345" },
+  euro: { label: "EUR € suffix", extraChars: ["€", ",", "."], decimals: 2, sample: "12.345,00€" },
+  credits: { label: "CREDITS suffix", extraChars: [",", " ", "C", "R", "E", "D", "I", "T", "S"], decimals: 0, sample: "12,345 CREDITS" },
+  // glyphs and decimals depend on the locale - see localeChars / fractionDigits
+  locale: { label: "Locale (Intl)", extraChars: [], decimals: 2, sample: "12.345,00\u00a0€" },
+  // glyphs and decimals come from the template - see templateChars / fractionDigits
+  template: { label: "Custom template", extraChars: [], decimals: 2, sample: "12,345.00 CR" },
+  // mark, placement and decimals come from the currency - see currencies.ts
+  money: { label: "Currency (symbol / ISO)", extraChars: [], decimals: 2, sample: "£12,345.00" },
+  // the pad glyph comes from the options - see odometer.ts
+  odometer: { label: "Odometer (fixed cells)", extraChars: [], decimals: 0, sample: "0012345" },
 };
 
+const formatters = new Map<string, Intl.NumberFormat | null>();
+
+/** Cached Intl formatter for a locale setting; null when the tag or currency is invalid. */
+export function localeFormatter(opts: LocaleFormat, sign: SignMode = "negative"): Intl.NumberFormat | null {
+  const key = `${opts.locale}|${opts.currency ?? ""}|${opts.decimals ?? ""}|${sign}`;
+  if (!formatters.has(key)) {
+    try {
+      const digits = opts.decimals ?? (opts.currency ? undefined : 0);
+      formatters.set(
+        key,
+        new Intl.NumberFormat(opts.locale, {
+          ...(opts.currency ? { style: "currency", currency: opts.currency } : {}),
+          ...(sign === "accounting" && opts.currency ? { currencySign: "accounting" } : {}),
+          signDisplay: sign === "explicit" ? "exceptZero" : "auto",
+          ...(digits !== undefined ? { minimumFractionDigits: digits, maximumFractionDigits: digits } : {}),
+        })
+      );
+    } catch {
+      formatters.set(key, null);
+    }
+  }
+  return formatters.get(key)!;
+}
+
+/**
+ * Every glyph a locale format can emit: its own digits (some locales do not
+ * use 0-9) plus group, decimal and currency parts - exotic spaces included,
+ * e.g. U+202F for fr-FR grouping or U+00A0 before a suffixed symbol.
+ */
+export function localeChars(opts: LocaleFormat, sign: SignMode = "clamp"): string[] {
+  const nf = localeFormatter(opts, sign);
+  if (!nf) return [];
+  const chars = new Set<string>();
+  for (let d = 0; d <= 9; d++) {
+    for (const part of nf.formatToParts(d)) if (part.type === "integer") [...part.value].forEach((c) => chars.add(c));
+  }
+  // wide enough for every grouping pattern (Indian lakh/crore included)
+  const probes = sign === "clamp" ? [1234567890.12] : [1234567890.12, -1234567890.12];
+  for (const part of probes.flatMap((n) => nf.formatToParts(n))) {
+    if (part.type !== "integer" && part.type !== "fraction") [...part.value].forEach((c) => chars.add(c));
+  }
+  // Intl only parenthesises currencies; plain numbers are wrapped by hand
+  if (sign === "accounting" && !opts.currency) ["(", ")"].forEach((c) => chars.add(c));
+  return [...chars];
+}
+
+/** Readable name for a glyph in messages: SP, U+202F for other spaces, else the char. */
+export function glyphName(c: string): string {
+  if (c === " ") return "SP";
+  if (/^[\s\u200b-\u200f\u2060]$/.test(c)) return `U+${c.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")}`;
+  return c;
+}
+
 function grp(intPart: string, sep: string): string {
   return intPart.replace(/\B(?=(\d{3})+(?!\d))/g, sep);
 }
 
-export function formatValue(value: number, kind: FormatKind): string {
-  const v = Math.max(0, value);
+/** The first `n` decimals, truncated (never rounded up into the next value). */
+function frac(d: Digits, n: number): string {
+  return d.frac.padEnd(n, "0").slice(0, n);
+}
+
+const ABBREV: [number, string][] = [
+  [12, "T"],
+  [9, "B"],
+  [6, "M"],
+  [3, "K"],
+];
+
+/** The unsigned text of a value's digits. */
+function formatMagnitude(d: Digits, kind: Exclude<FormatKind, "locale">, options: FormatOptions): string {
   switch (kind) {
     case "int":
-      return Math.floor(v).toString();
+      return d.int;
     case "comma":
-      return grp(Math.floor(v).toString(), ",");
+      return grp(d.int, ",");
     case "spaced":
-      return grp(Math.floor(v).toString(), " ");
+      return grp(d.int, " ");
     case "decimals2":
-      return v.toFixed(2);
-    case "currency": {
-      const [i, d] = v.toFixed(2).split(".");
-      return `${grp(i, ",")}.${d}`;
-    }
-    case "currencySign": {
-      const [i, d] = v.toFixed(2).split(".");
-      return `$${grp(i, ",")}.${d}`;
-    }
-    case "euro": {
+      return `${d.int}.${frac(d, 2)}`;
+    case "currency":
+      return `${grp(d.int, ",")}.${frac(d, 2)}`;
+    case "currencySign":
+      return `$${grp(d.int, ",")}.${frac(d, 2)}`;
+    case "euro":
       // European convention: '.' thousands, ',' decimals, '€' suffix
-      const [i, d] = v.toFixed(2).split(".");
-      return `${grp(i, ".")},${d}€`;
-    }
+      return `${grp(d.int, ".")},${frac(d, 2)}€`;
     case "multiplier":
-      return `${v.toFixed(2)}x`;
+      return `${d.int}.${frac(d, 2)}x`;
     case "multiplierInt":
-      return `${Math.floor(v)}x`;
+      return `${d.int}x`;
     case "suffixWin":
-      return `${grp(Math.floor(v).toString(), ",")} WIN`;
+      return `${grp(d.int, ",")} WIN`;
     case "credits":
-      return `${grp(Math.floor(v).toString(), ",")} CREDITS`;
+      return `${grp(d.int, ",")} CREDITS`;
     case "abbrev": {
-      if (v >= 1e9) return `${(v / 1e9).toFixed(1)}B`;
-      if (v >= 1e6) return `${(v / 1e6).toFixed(1)}M`;
-      if (v >= 1e3) return `${(v / 1e3).toFixed(1)}K`;
-      return Math.floor(v).toString();
+      // one truncated decimal of the unit, e.g. 3,456,789 -> 3.4M
+      for (const [exp, unit] of ABBREV) {
+        if (d.int.length > exp) return `${d.int.slice(0, -exp)}.${d.int[d.int.length - exp]}${unit}`;
+      }
+      return d.int;
+    }
+    case "template": {
+      const t = compileTemplate(options.template ?? DEFAULT_TEMPLATE);
+      return t ? formatWithTemplate(d, t) : d.int;
     }
+    case "odometer":
+      return padCells(d.int, options.odometer ?? DEFAULT_ODOMETER);
+    case "money": {
+      const m = resolveMoney(options.money ?? DEFAULT_MONEY);
+      return `${m.prefix}${grp(d.int, ",")}${m.decimals ? `.${frac(d, m.decimals)}` : ""}${m.suffix}`;
+    }
+  }
+}
+
+function formatLocale(d: Digits, options: FormatOptions): string {
+  const opts = options.locale ?? DEFAULT_LOCALE_FORMAT;
+  const sign = options.sign ?? "clamp";
+  const nf = localeFormatter(opts, sign);
+  if (!nf) return d.negative ? "0" : d.int;
+  // truncate like the other kinds, so a tick never shows the next value early;
+  // Intl formats a decimal string exactly, past Number's precision
+  const n = nf.resolvedOptions().maximumFractionDigits!;
+  const magnitude = (n ? `${d.int}.${frac(d, n)}` : d.int) as `${number}`;
+  const zero = !/[1-9]/.test(magnitude);
+  if (!d.negative || sign === "clamp" || zero) return nf.format(d.negative ? 0 : magnitude);
+  return sign === "accounting" && !opts.currency ? `(${nf.format(magnitude)})` : nf.format(`-${magnitude}` as `${number}`);
+}
+
+/** Decimals a format shows - the minor unit the counter interpolates in. */
+export function fractionDigits(kind: FormatKind, options: FormatOptions = {}): number {
+  if (kind === "locale") {
+    const nf = localeFormatter(options.locale ?? DEFAULT_LOCALE_FORMAT);
+    return nf?.resolvedOptions().maximumFractionDigits ?? 0;
   }
+  if (kind === "template") return compileTemplate(options.template ?? DEFAULT_TEMPLATE)?.maxFrac ?? 0;
+  if (kind === "money") return resolveMoney(options.money ?? DEFAULT_MONEY).decimals;
+  return FORMAT_META[kind].decimals;
+}
+
+/**
+ * Format a value. Numbers, decimal strings and BigInts are all printed from
+ * their exact digits; decimals past what the format shows are truncated.
+ */
+export function formatValue(value: Amount, kind: FormatKind, options: FormatOptions = {}): string {
+  const d = toDigits(value);
+  if (kind === "locale") return formatLocale(d, options);
+  const sign = options.sign ?? "clamp";
+  if (sign === "clamp") return formatMagnitude(d.negative ? { negative: false, int: "0", frac: "" } : d, kind, options);
+
+  const body = formatMagnitude(d, kind, options);
+  // a value that truncates to zero is shown unsigned
+  if (!/[1-9]/.test(body)) return body;
+  if (d.negative) return sign === "accounting" ? `(${body})` : `${options.minus ?? "-"}${body}`;
+  return sign === "explicit" ? `+${body}` : body;
 }
 
-/** Every distinct glyph a format+range could ever render (for validation). */
-export function charsForFormat(kind: FormatKind): string[] {
+/**
+ * The glyph indices of an odometer's pad cells in `formatValue`'s output,
+ * as [start, end); null for other kinds or when every cell holds a digit.
+ */
+export function paddingRange(value: Amount, kind: FormatKind, options: FormatOptions = {}): [number, number] | null {
+  if (kind !== "odometer") return null;
+  const d = toDigits(value);
+  const int = d.negative && (options.sign ?? "clamp") === "clamp" ? "0" : d.int;
+  const o = options.odometer ?? DEFAULT_ODOMETER;
+  const count = padCount(int, o);
+  if (!count) return null;
+  const text = formatValue(value, kind, options);
+  const start = [...text.slice(0, text.indexOf(padCells(int, o)))].length;
+  return [start, start + count];
+}
+
+/**
+ * Every glyph a format can render for any value - the per-format superset
+ * used by batch comparison. A preset's exact needs come from presetGlyphs.
+ */
+export function charsForFormat(kind: FormatKind, options: FormatOptions = {}): string[] {
+  if (kind === "locale") return localeChars(options.locale ?? DEFAULT_LOCALE_FORMAT, options.sign);
+  const minus = options.minus ?? "-";
+  const signs = { clamp: [], negative: [minus], explicit: ["+", minus], accounting: ["(", ")"] }[options.sign ?? "clamp"];
+  if (kind === "template") {
+    const t = compileTemplate(options.template ?? DEFAULT_TEMPLATE);
+    return Array.from(new Set([...(t ? templateChars(t) : "0123456789".split("")), ...signs]));
+  }
   const digits = "0123456789".split("");
-  return Array.from(new Set([...digits, ...FORMAT_META[kind].extraChars]));
+  if (kind === "money") return Array.from(new Set([...digits, ...moneyChars(options.money ?? DEFAULT_MONEY), ...signs]));
+  if (kind === "odometer") return Array.from(new Set([...digits, (options.odometer ?? DEFAULT_ODOMETER).pad || " ", ...signs]));
+  return Array.from(new Set([...digits, ...FORMAT_META[kind].extraChars, ...signs]));
 }
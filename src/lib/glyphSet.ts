@@ -0,0 +1,129 @@
+import type { Preset } from "./presets";
+import { counterRange, fromUnits, toUnits } from "./amount";
+import { formatValue, fractionDigits } from "./formats";
+import { sampleCounter } from "./layoutSim";
+
+/**
+ * The glyphs a preset really needs, from the strings its run can put on
+ * screen rather than a format's static list. The counter can stop on any
+ * minor unit between the lowest and highest value it reaches (eased overshoot
+ * included), so a range of up to FULL_RANGE units is formatted value by value
+ * and the result is exact.
+ *
+ * A wider range is sampled, not enumerated: every frame the stage shows, plus
+ * WINDOW steps either side of its ends, zero and every power of ten, at every
+ * power-of-ten stride - the places where signs, separators, unit suffixes and
+ * digit counts change - and a run of CYCLE steps at each stride, so each two
+ * adjacent digit positions go through all hundred pairs. That covers what the
+ * built-in formats vary with, but it is a sample: a string only a handful of
+ * values in a huge range print could still be missed.
+ */
+
+export interface GlyphNeed {
+  char: string;
+  /** a string the run shows that contains the char. */
+  sample: string;
+}
+
+/** ranges up to this many minor units are enumerated in full. */
+const FULL_RANGE = 20_000n;
+/** steps taken either side of each anchor, per stride. */
+const WINDOW = 24;
+/** consecutive steps down from the top, per stride: every pair of two adjacent digits. */
+const CYCLE = 100n;
+/** frame rate used to trace the eased path (finer than the stage, to catch overshoot peaks). */
+const TRACE_FPS = 240;
+
+function anchors(lo: bigint, hi: bigint): bigint[] {
+  const out = [lo, hi, 0n];
+  const reach = lo < 0n ? (-lo > hi ? -lo : hi) : hi;
+  for (let p = 1n; p <= reach; p *= 10n) out.push(p, -p);
+  return out.filter((a) => a >= lo && a <= hi);
+}
+
+/** The strings the preset's run renders - all of them, or the sample above (repeats included). */
+function* presetTexts(preset: Preset): Generator<string> {
+  const scale = fractionDigits(preset.format, preset);
+  const text = (units: bigint) => formatValue(fromUnits(units, scale), preset.format, preset);
+
+  // the loaded value and the frames the stage will show come first, so the
+  // samples are strings the run really displays
+  const path = [counterRange(preset, scale).from, ...sampleCounter(preset, TRACE_FPS).map((f) => toUnits(f.value, scale))];
+  for (const u of path) yield text(u);
+
+  let lo = path[0];
+  let hi = path[0];
+  for (const u of path) {
+    if (u < lo) lo = u;
+    if (u > hi) hi = u;
+  }
+  if (hi - lo <= FULL_RANGE) {
+    for (let u = lo; u <= hi; u++) yield text(u);
+  } else {
+    const points = anchors(lo, hi);
+    for (let stride = 1n; stride <= hi - lo; stride *= 10n) {
+      for (const a of points) {
+        for (let i = -WINDOW; i <= WINDOW; i++) {
+          const u = a + BigInt(i) * stride;
+          if (u >= lo && u <= hi) yield text(u);
+        }
+      }
+      for (let i = 0n; i < CYCLE && hi - i * stride >= lo; i++) yield text(hi - i * stride);
+    }
+  }
+}
+
+export interface PresetOutput {
+  /** every char the run renders, in order of first appearance. */
+  glyphs: GlyphNeed[];
+  /** every pair of chars it sets side by side, in order of first appearance. */
+  pairs: [string, string][];
+}
+
+/** Preset fields that change the printed strings - size, spacing and looks do not. */
+const TEXT_FIELDS = [
+  "from",
+  "to",
+  "topUp",
+  "topUpDelay",
+  "duration",
+  "counter",
+  "ease",
+  "format",
+  "locale",
+  "template",
+  "money",
+  "odometer",
+  "sign",
+  "minus",
+] as const satisfies readonly (keyof Preset)[];
+
+/** the last preset's output - the panel and its checks ask for the same one in turn. */
+let last: { key: string; output: PresetOutput } | null = null;
+
+/** Glyphs and neighbour pairs of the preset's run, from one pass over its strings. */
+export function presetOutput(preset: Preset): PresetOutput {
+  const key = JSON.stringify(
+    TEXT_FIELDS.map((f) => preset[f]),
+    (_, v) => (typeof v === "bigint" ? `${v}n` : v)
+  );
+  if (last?.key === key) return last.output;
+
+  const glyphs = new Map<string, string>();
+  const pairs = new Map<string, [string, string]>();
+  for (const text of presetTexts(preset)) {
+    const chars = [...text];
+    chars.forEach((c, i) => {
+      if (!glyphs.has(c)) glyphs.set(c, text);
+      if (i && !pairs.has(chars[i - 1] + c)) pairs.set(chars[i - 1] + c, [chars[i - 1], c]);
+    });
+  }
+  const output = { glyphs: [...glyphs].map(([char, sample]) => ({ char, sample })), pairs: [...pairs.values()] };
+  last = { key, output };
+  return output;
+}
+
+/** Every char the preset's run can render, in order of first appearance. */
+export function presetGlyphs(preset: Preset): GlyphNeed[] {
+  return presetOutput(preset).glyphs;
+}
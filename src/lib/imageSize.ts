@@ -0,0 +1,46 @@
+import type { PageSize } from "./descriptorLint";
+
+/**
+ * Pixel size of a PNG, JPEG or WebP read from its header, for where no image
+ * decoder is at hand (the headless CLI). Returns null for anything else.
+ */
+export function readImageSize(bytes: Uint8Array): PageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (at: number, len: number) => String.fromCharCode(...bytes.subarray(at, at + len));
+
+  // PNG: signature, then the IHDR chunk's width/height (big-endian)
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === "PNG") {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let p = 2;
+    while (p + 9 < bytes.length) {
+      if (bytes[p] !== 0xff) return null;
+      const marker = bytes[p + 1];
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) return { width: view.getUint16(p + 7), height: view.getUint16(p + 5) };
+      p += 2 + view.getUint16(p + 2);
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with a VP8 / VP8L / VP8X first chunk
+  if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    const chunk = ascii(12, 4);
+    if (chunk === "VP8 ") {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      const w = bytes[24] | (bytes[25] << 8) | (bytes[26] << 16);
+      const h = bytes[27] | (bytes[28] << 8) | (bytes[29] << 16);
+      return { width: w + 1, height: h + 1 };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,239 @@
+import type { BitmapFontData } from "pixi.js";
+import type { Finding } from "./fontReport";
+import type { PageMatch } from "./pages";
+
+/**
+ * Glyph ink read back from the atlas pixels rather than trusted from the
+ * descriptor. Each glyph rect is scanned for pixels above an alpha floor to
+ * get its real ink box; from that come fully transparent glyphs, ink cut off
+ * at the rect edge by the packer, rects with large empty margins, and each
+ * digit's optical centre - equal advances can still look jumpy when the ink
+ * sits at different places inside them.
+ */
+
+/** RGBA page pixels, straight from the decoded image. */
+export interface PagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type Edge = "left" | "right" | "top" | "bottom";
+
+export interface GlyphInk {
+  char: string;
+  /** ink box inside the glyph rect; null when nothing is above the alpha floor. */
+  ink: { x: number; y: number; width: number; height: number } | null;
+  /** rect edges where the ink is cut hard (opaque pixels on the border). */
+  cutEdges: Edge[];
+}
+
+export interface DigitCentre {
+  char: string;
+  /** ink-weighted centre, measured from the pen position (font px). */
+  centre: number;
+  /** centre minus half the advance: + sits right of the cell's middle. */
+  offset: number;
+}
+
+export interface InkResult {
+  /** glyphs with a rect on a decoded page. */
+  analysed: number;
+  glyphs: GlyphInk[];
+  findings: Finding[];
+  digits: DigitCentre[];
+  /** widest gap between two digits' optical offsets. */
+  centreSpread: number;
+  /** digits' ink wanders inside equal cells enough to read as movement. */
+  jumpy: boolean;
+}
+
+/** alpha at or below this counts as empty - filters faint packing noise. */
+const ALPHA_FLOOR = 8;
+/** an edge pixel this opaque means the ink was cut, not anti-aliased out. */
+const HARD_ALPHA = 224;
+/** empty margin (px and share of the rect) worth flagging. */
+const MARGIN_PX = 2;
+const MARGIN_SHARE = 0.25;
+/** optical centres within a pixel of each other do not read as movement. */
+const CENTRE_EPSILON = 1;
+const LIST_MAX = 8;
+
+const show = (c: string) => (c === " " ? "SP" : `'${c}'`);
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const signed = (n: number) => `${n > 0 ? "+" : ""}${n}`;
+
+function listChars(chars: string[]): string {
+  const head = chars.slice(0, LIST_MAX).map(show).join(", ");
+  return chars.length > LIST_MAX ? `${head} +${chars.length - LIST_MAX} more` : head;
+}
+
+/**
+ * Exact RGBA through a WebGL texture. A 2D canvas stores premultiplied
+ * pixels, which rounds colour under low alpha and zeroes it under none -
+ * exactly what the alpha-mode check needs to see.
+ */
+function readPixelsGL(bitmap: ImageBitmap): Uint8ClampedArray | null {
+  const gl = new OffscreenCanvas(1, 1).getContext("webgl2");
+  if (!gl) return null;
+  const { width, height } = bitmap;
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, bitmap);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, gl.createFramebuffer());
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  const out = new Uint8Array(width * height * 4);
+  const ok = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+  if (ok) gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, out);
+  gl.getExtension("WEBGL_lose_context")?.loseContext();
+  return ok ? new Uint8ClampedArray(out.buffer) : null;
+}
+
+/** Decode a page image to straight (not premultiplied) RGBA on the CPU. */
+export async function decodePage(file: Blob): Promise<PagePixels> {
+  const bitmap = await createImageBitmap(file, { premultiplyAlpha: "none", colorSpaceConversion: "none" });
+  const { width, height } = bitmap;
+  let data = readPixelsGL(bitmap);
+  if (!data) {
+    const ctx = new OffscreenCanvas(width, height).getContext("2d", { willReadFrequently: true })!;
+    ctx.drawImage(bitmap, 0, 0);
+    data = ctx.getImageData(0, 0, width, height).data;
+  }
+  bitmap.close();
+  return { width, height, data };
+}
+
+/** Decode every matched page; a page with no (or an undecodable) image is null. */
+export async function decodePages(pages: PageMatch[]): Promise<(PagePixels | null)[]> {
+  return Promise.all(pages.map((p) => (p.source ? decodePage(p.source.file).catch(() => null) : null)));
+}
+
+interface Scan {
+  ink: GlyphInk["ink"];
+  cutEdges: Edge[];
+  /** sum of alpha * x over the rect, for the centroid. */
+  weightX: number;
+  weight: number;
+}
+
+function scanRect(page: PagePixels, x0: number, y0: number, w: number, h: number): Scan {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+  let weightX = 0;
+  let weight = 0;
+  const cut = new Set<Edge>();
+
+  for (let y = 0; y < h; y++) {
+    const py = y0 + y;
+    if (py < 0 || py >= page.height) continue;
+    for (let x = 0; x < w; x++) {
+      const px = x0 + x;
+      if (px < 0 || px >= page.width) continue;
+      const a = page.data[(py * page.width + px) * 4 + 3];
+      if (a <= ALPHA_FLOOR) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      weightX += a * (x + 0.5);
+      weight += a;
+      if (a >= HARD_ALPHA) {
+        if (x === 0) cut.add("left");
+        if (x === w - 1) cut.add("right");
+        if (y === 0) cut.add("top");
+        if (y === h - 1) cut.add("bottom");
+      }
+    }
+  }
+
+  return {
+    ink: maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+    cutEdges: [...cut],
+    weightX,
+    weight,
+  };
+}
+
+/**
+ * Scan every glyph rect on its page. `pages[i]` holds the pixels of
+ * `data.pages[i]`, or null when that page has no image.
+ */
+export function analyzeInk(data: BitmapFontData, pages: (PagePixels | null)[]): InkResult {
+  const pageIndex = new Map(data.pages.map((p, i) => [p.id, i] as const));
+  const glyphs: GlyphInk[] = [];
+  const transparent: string[] = [];
+  const cut: string[] = [];
+  const roomy: string[] = [];
+  const digits: DigitCentre[] = [];
+
+  for (const [char, c] of Object.entries(data.chars)) {
+    const page = pages[pageIndex.get(c.page) ?? -1];
+    if (!page || c.width <= 0 || c.height <= 0) continue;
+    const scan = scanRect(page, c.x, c.y, c.width, c.height);
+    glyphs.push({ char, ink: scan.ink, cutEdges: scan.cutEdges });
+
+    if (!scan.ink) {
+      if (!/\s/.test(char)) transparent.push(char);
+      continue;
+    }
+    if (scan.cutEdges.length) cut.push(char);
+
+    const { ink } = scan;
+    const spareX = c.width - ink.width;
+    const spareY = c.height - ink.height;
+    if (
+      (spareX >= MARGIN_PX && spareX / c.width > MARGIN_SHARE) ||
+      (spareY >= MARGIN_PX && spareY / c.height > MARGIN_SHARE)
+    ) {
+      roomy.push(char);
+    }
+
+    if (/^[0-9]$/.test(char)) {
+      const centre = c.xOffset + scan.weightX / scan.weight;
+      digits.push({ char, centre: round2(centre), offset: round2(centre - c.xAdvance / 2) });
+    }
+  }
+
+  const findings: Finding[] = [];
+  if (transparent.length) {
+    findings.push({
+      id: "ink-transparent",
+      severity: "error",
+      message: `${transparent.length} glyph(s) have a rect but no visible pixels: ${listChars(transparent)}.`,
+    });
+  }
+  if (cut.length) {
+    findings.push({
+      id: "ink-cut",
+      severity: "warn",
+      message: `${cut.length} glyph(s) have opaque ink on their rect edge - likely clipped by the packer: ${listChars(cut)}.`,
+    });
+  }
+  if (roomy.length) {
+    findings.push({
+      id: "ink-margin",
+      severity: "info",
+      message: `${roomy.length} glyph rect(s) are much larger than their ink (wasted atlas space, loose bounds): ${listChars(roomy)}.`,
+    });
+  }
+
+  digits.sort((a, b) => a.char.localeCompare(b.char));
+  const offsets = digits.map((d) => d.offset);
+  const centreSpread = offsets.length ? round2(Math.max(...offsets) - Math.min(...offsets)) : 0;
+  const jumpy = digits.length > 1 && centreSpread > CENTRE_EPSILON;
+  if (jumpy) {
+    const left = digits.reduce((a, b) => (b.offset < a.offset ? b : a));
+    const right = digits.reduce((a, b) => (b.offset > a.offset ? b : a));
+    findings.push({
+      id: "ink-centre",
+      severity: "warn",
+      message: `Digit ink sits off-centre by up to ${centreSpread}px (${show(left.char)} ${signed(left.offset)}, ${show(right.char)} ${signed(right.offset)}) - ticks can look jumpy even with equal advances.`,
+    });
+  }
+
+  return { analysed: glyphs.length, glyphs, findings, digits, centreSpread, jumpy };
+}
@@ -0,0 +1,140 @@
+import { gsap } from "gsap";
+import type { Preset } from "./presets";
+import { counterRange, counterValue } from "./amount";
+import { formatValue, fractionDigits } from "./formats";
+
+/**
+ * Layout-shift simulator: replays a preset's count-up exactly as WinBox tweens
+ * it (same eases, top-up phase and timing), formats every frame and measures
+ * the laid-out width the way Pixi's bitmap layout does. With the text anchored
+ * at its centre, a width change of d moves each edge by d/2.
+ */
+
+/** The part of a glyph the layout reads - satisfied by BitmapFont and BitmapFontData chars. */
+export interface GlyphMetrics {
+  xAdvance: number;
+  kerning: Record<string, number>;
+}
+
+export interface MetricsSource {
+  chars: Record<string, GlyphMetrics>;
+  /** the size the metrics were authored at (BitmapFont.baseMeasurementFontSize). */
+  size: number;
+}
+
+export interface ShiftFrame {
+  /** seconds since the counter started. */
+  t: number;
+  text: string;
+  width: number;
+  left: number;
+  right: number;
+  /** edge movement since the previous frame (px, screen space). */
+  dLeft: number;
+  dRight: number;
+}
+
+export interface ShiftTimeline {
+  fps: number;
+  duration: number;
+  frames: ShiftFrame[];
+  /** largest single-frame edge movement, px. */
+  maxJump: number;
+  maxJumpFrame: { t: number; from: string; to: string } | null;
+  /** px an edge may move in one frame before it counts as a shift. */
+  tolerance: number;
+  /** frames where an edge moved by more than `tolerance`. */
+  shiftEvents: number;
+}
+
+/** sub-pixel edge moves are invisible once snapped - a fixed tolerance, whatever the profile. */
+const SHIFT_EPSILON = 0.5;
+
+/** Pixi's single-line bitmap layout width, in screen px. */
+export function measureText(
+  font: MetricsSource,
+  text: string,
+  fontSize: number,
+  letterSpacing: number
+): number {
+  const scale = fontSize / font.size;
+  let width = 0;
+  let prev: string | null = null;
+  for (const ch of text) {
+    const g = font.chars[ch];
+    if (g) width += (g.xAdvance + (prev !== null ? g.kerning?.[prev] ?? 0 : 0)) * scale + letterSpacing;
+    prev = ch;
+  }
+  return width;
+}
+
+/**
+ * The counter's value on every frame of a preset run, mirroring
+ * WinBox.runCounter: eased progress over whole minor units, so each value is
+ * the exact decimal the stage shows.
+ */
+export function sampleCounter(preset: Preset, fps = 60): { t: number; value: string }[] {
+  const range = counterRange(preset, fractionDigits(preset.format, preset));
+  if (preset.counter === "instant" || preset.duration <= 0) {
+    return [{ t: 0, value: counterValue(range, 1, 1) }];
+  }
+
+  const easeName =
+    preset.counter === "linear" ? "none" : preset.ease === "none" ? "power2.out" : preset.ease;
+  const ease = gsap.parseEase(easeName) ?? ((p: number) => p);
+  const dt = 1 / fps;
+  const out: { t: number; value: string }[] = [];
+
+  const phase = (start: number, duration: number, at: (p: number) => string) => {
+    for (let t = 0; t < duration; t += dt) out.push({ t: start + t, value: at(t / duration) });
+  };
+
+  phase(0, preset.duration, (p) => counterValue(range, ease(p)));
+  let end = preset.duration;
+  if (range.topUp > 0n) {
+    const delay = preset.topUpDelay ?? 0.5;
+    const bumpDur = Math.max(0.4, preset.duration * 0.45);
+    const bump = gsap.parseEase("back.out(1.4)");
+    phase(end, delay, () => counterValue(range, 1));
+    end += delay;
+    phase(end, bumpDur, (p) => counterValue(range, 1, bump(p)));
+    end += bumpDur;
+  }
+  out.push({ t: end, value: counterValue(range, 1, 1) });
+  return out;
+}
+
+export function simulateLayoutShift(font: MetricsSource, preset: Preset, fps = 60): ShiftTimeline {
+  const samples = sampleCounter(preset, fps);
+  const frames: ShiftFrame[] = [];
+  let maxJump = 0;
+  let maxJumpFrame: ShiftTimeline["maxJumpFrame"] = null;
+  let shiftEvents = 0;
+
+  for (const { t, value } of samples) {
+    const text = formatValue(value, preset.format, preset);
+    const width = measureText(font, text, preset.fontSize, preset.letterSpacing);
+    const prev = frames[frames.length - 1];
+    const left = -width / 2;
+    const right = width / 2;
+    const dLeft = prev ? left - prev.left : 0;
+    const dRight = prev ? right - prev.right : 0;
+    const jump = Math.max(Math.abs(dLeft), Math.abs(dRight));
+    if (jump > SHIFT_EPSILON) shiftEvents++;
+    if (prev && jump > maxJump) {
+      maxJump = jump;
+      maxJumpFrame = { t, from: prev.text, to: text };
+    }
+    frames.push({ t, text, width, left, right, dLeft, dRight });
+  }
+
+  return {
+    fps,
+    duration: samples[samples.length - 1].t,
+    frames,
+    maxJump: Math.round(maxJump * 100) / 100,
+    maxJumpFrame,
+    tolerance: SHIFT_EPSILON,
+    shiftEvents,
+  };
+}
@@ -0,0 +1,84 @@
+import type { Finding, FontMetrics } from "./fontReport";
+
+/**
+ * The `odometer` format: a fixed number of digit cells, like a slot meter's
+ * `0000125` or `___125`, so the width holds still while the value ticks. The
+ * cells left of the value are filled with a pad glyph - a zero, a space, or a
+ * placeholder the stage can draw dimmed (Preset.dimPadding). A value longer
+ * than the cells is printed in full rather than cut.
+ */
+
+export interface OdometerFormat {
+  /** digit cells. */
+  digits: number;
+  /** one glyph filling the unused cells. */
+  pad: string;
+}
+
+export const DEFAULT_ODOMETER: OdometerFormat = { digits: 7, pad: "0" };
+
+export const ODOMETER_PADS: { pad: string; label: string }[] = [
+  { pad: "0", label: "Zero" },
+  { pad: " ", label: "Space" },
+  { pad: "_", label: "Placeholder (_)" },
+];
+
+/** How many cells are left for padding in front of `int`. */
+export function padCount(int: string, o: OdometerFormat): number {
+  return Math.max(0, Math.floor(o.digits) - int.length);
+}
+
+/** The integer digits with the unused cells padded. */
+export function padCells(int: string, o: OdometerFormat): string {
+  return (o.pad || " ").repeat(padCount(int, o)) + int;
+}
+
+export interface PadResult {
+  pad: string;
+  present: boolean;
+  /** the pad's advance at the preset size, px. */
+  advance: number | null;
+  /** the digits' advances at the preset size (min and max), px. */
+  digitAdvance: [number, number] | null;
+  findings: Finding[];
+}
+
+const show = (c: string) => (c === " " ? "SP" : `'${c}'`);
+
+/**
+ * Does the pad glyph exist, and does it advance exactly like a digit? A pad
+ * of a different width moves every real digit as the value grows into its
+ * cells, which is the width change the format is meant to prevent.
+ * `tolerance` is the px it may differ by - the profile's mono threshold, as
+ * in the jump test.
+ */
+export function checkPad(font: FontMetrics, o: OdometerFormat, fontSize: number, tolerance: number): PadResult {
+  const scale = fontSize / font.size;
+  const pad = o.pad || " ";
+  const glyph = font.chars[pad];
+  const digits = [..."0123456789"].flatMap((d) => (font.chars[d] ? [font.chars[d].xAdvance * scale] : []));
+  const digitAdvance: PadResult["digitAdvance"] = digits.length ? [Math.min(...digits), Math.max(...digits)] : null;
+  const advance = glyph ? glyph.xAdvance * scale : null;
+  const findings: Finding[] = [];
+  const px = (n: number) => Math.round(n * 100) / 100;
+
+  if (!glyph) {
+    findings.push({
+      id: "pad-missing",
+      severity: "error",
+      message: `Pad glyph ${show(pad)} is not in the font - the empty cells collapse and the meter changes width as it ticks.`,
+    });
+  } else if (digitAdvance && advance !== null) {
+    const drift = Math.max(Math.abs(advance - digitAdvance[0]), Math.abs(advance - digitAdvance[1]));
+    if (drift > tolerance) {
+      findings.push({
+        id: "pad-advance",
+        severity: "warn",
+        message: `Pad ${show(pad)} advances ${px(advance)}px against digit advances of ${
+          digitAdvance[0] === digitAdvance[1] ? `${px(digitAdvance[0])}px` : `${px(digitAdvance[0])}-${px(digitAdvance[1])}px`
+        } - the meter shifts by up to ${px(drift)}px each time the value fills a cell.`,
+      });
+    }
+  }
+  return { pad, present: !!glyph, advance: advance === null ? null : px(advance), digitAdvance, findings };
+}
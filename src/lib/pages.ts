@@ -0,0 +1,66 @@
+import { resolveRelative, type SourceFile } from "./zip";
+
+/**
+ * Page-image resolution: which dropped image backs each page a descriptor
+ * lists. Nothing falls back silently - a page with no plausible image stays
+ * "missing" (its glyphs render blank) and every non-exact match is reported.
+ */
+
+export type PageMatchKind =
+  /** path or file name matches as declared. */
+  | "exact"
+  /** same name, different letter case (breaks on case-sensitive servers). */
+  | "case"
+  /** same stem, different extension - e.g. `.png` declared, `.webp` dropped. */
+  | "extension"
+  /** assigned by hand in the drawer. */
+  | "manual"
+  | "missing";
+
+export interface PageMatch {
+  id: number;
+  /** the file name as the descriptor declares it. */
+  declared: string;
+  source: SourceFile | null;
+  kind: PageMatchKind;
+}
+
+const baseName = (p: string) => p.split(/[\\/]/).pop() || p;
+const stem = (p: string) => baseName(p).replace(/\.[^.]+$/, "").toLowerCase();
+export const dirName = (p: string) => p.split("/").slice(0, -1).join("/");
+
+/**
+ * Match each declared page against the candidate images. `overrides` maps a
+ * page id to the path of a hand-assigned image and wins over any guess.
+ */
+export function resolvePages(
+  descriptorPath: string,
+  pages: { id: number; file: string }[],
+  images: SourceFile[],
+  overrides: Record<number, string> = {}
+): PageMatch[] {
+  return pages.map((page) => {
+    const match = (source: SourceFile | undefined, kind: PageMatchKind): PageMatch | null =>
+      source ? { id: page.id, declared: page.file, source, kind } : null;
+
+    const manual = overrides[page.id];
+    const resolved = resolveRelative(descriptorPath, page.file);
+    const base = baseName(page.file);
+
+    return (
+      (manual !== undefined && match(images.find((s) => s.path === manual), "manual")) ||
+      match(
+        images.find((s) => s.path === resolved) ?? images.find((s) => s.file.name === base),
+        "exact"
+      ) ||
+      match(
+        images.find((s) => s.file.name.toLowerCase() === base.toLowerCase()),
+        "case"
+      ) ||
+      match(
+        images.find((s) => stem(s.file.name) === stem(base)),
+        "extension"
+      ) || { id: page.id, declared: page.file, source: null, kind: "missing" }
+    );
+  });
+}
@@ -1,4 +1,7 @@
-import type { FormatKind } from "./formats";
+import type { Amount } from "./amount";
+import type { MoneyFormat } from "./currencies";
+import type { OdometerFormat } from "./odometer";
+import type { FormatKind, LocaleFormat, MinusGlyph, SignMode } from "./formats";
 
 export type EntranceKind = "none" | "pop" | "fade" | "slam" | "flip";
 export type CounterKind = "instant" | "linear" | "ease" | "elastic";
@@ -17,12 +20,27 @@ export interface Preset {
   name: string;
   category: PresetCategory;
   description: string;
-  from: number;
-  to: number;
+  /** a number, or a decimal string / BigInt when Number would lose digits (see amount.ts). */
+  from: Amount;
+  to: Amount;
   duration: number;
   fontSize: number;
   letterSpacing: number;
   format: FormatKind;
+  /** locale, currency and decimals for the `locale` format. */
+  locale?: LocaleFormat;
+  /** the custom format for the `template` kind, e.g. "€{#,##0.00;group=.;decimal=,}". */
+  template?: string;
+  /** currency, mark placement and decimals for the `money` kind. */
+  money?: MoneyFormat;
+  /** digit cells and pad glyph for the `odometer` kind. */
+  odometer?: OdometerFormat;
+  /** draw an odometer's pad cells faded, so the real digits stand out. */
+  dimPadding?: boolean;
+  /** how negative/positive values are signed (default: negatives clamp to 0). */
+  sign?: SignMode;
+  /** minus glyph for signed formats (default "-"). */
+  minus?: MinusGlyph;
   entrance: EntranceKind;
   counter: CounterKind;
   ease: EaseName;
@@ -33,7 +51,7 @@ export interface Preset {
    * much more (to -> to + topUp) in a second, punchier tick. Simulates "extra
    * winlines resolved" bumping an already-shown win.
    */
-  topUp?: number;
+  topUp?: Amount;
   /** seconds to hold on `to` before the top-up runs (default 0.5). */
   topUpDelay?: number;
 }
@@ -84,7 +102,22 @@ export const PRESETS: Preset[] = [
   { ...base, id: "cur-usd", name: "USD $ prefix", category: "Currency & money", description: "Leading '$' plus grouped cents. Validates '$', ',', '.'.", to: 24999.99, duration: 2.5, format: "currencySign", counter: "ease", ease: "power3.out", box: true },
   { ...base, id: "cur-euro", name: "EUR € suffix", category: "Currency & money", description: "European grouping ('.' thousands, ',' decimals) + '€' suffix.", to: 12345.0, duration: 2.5, format: "euro", counter: "ease", ease: "power2.out", box: true },
   { ...base, id: "cur-credits", name: "CREDITS suffix", category: "Currency & money", description: "Balance styled as CREDITS - needs letter glyphs C R E D I T S.", to: 500000, duration: 3, format: "credits", counter: "ease", ease: "expo.out", box: true },
+  { ...base, id: "loc-de", name: "de-DE euro", category: "Currency & money", description: "Intl de-DE currency: '.' groups, ',' decimals, no-break space before '€'.", to: 48250.75, duration: 2.5, format: "locale", locale: { locale: "de-DE", currency: "EUR" }, counter: "ease", ease: "power2.out", box: true },
+  { ...base, id: "loc-fr", name: "fr-FR euro", category: "Currency & money", description: "Intl fr-FR currency: narrow no-break space (U+202F) groups - a glyph most fonts lack.", to: 1234567.89, duration: 3, format: "locale", locale: { locale: "fr-FR", currency: "EUR" }, counter: "ease", ease: "power3.out", box: true },
+  { ...base, id: "loc-br", name: "pt-BR real", category: "Currency & money", description: "Intl pt-BR currency: 'R$' prefix, '.' groups, ',' decimals.", to: 98765.43, duration: 2.5, format: "locale", locale: { locale: "pt-BR", currency: "BRL" }, counter: "ease", ease: "power2.out", box: true },
+  { ...base, id: "loc-in", name: "hi-IN rupee (lakh)", category: "Currency & money", description: "Intl hi-IN currency: lakh/crore grouping (12,34,56,789) and the '₹' sign.", to: 123456789, duration: 3, format: "locale", locale: { locale: "hi-IN", currency: "INR", decimals: 0 }, counter: "ease", ease: "expo.out", box: true },
+  { ...base, id: "loc-jp", name: "ja-JP yen", category: "Currency & money", description: "Intl ja-JP currency: no minor units and a full-width '￥' sign.", to: 3500000, duration: 2.5, format: "locale", locale: { locale: "ja-JP", currency: "JPY" }, counter: "ease", ease: "power3.out", box: true },
   { ...base, id: "cur-small", name: "Sub-dollar", category: "Currency & money", description: "Small win under $1.00 - leading-zero + decimals.", to: 0.85, duration: 1.2, format: "currencySign", counter: "linear", box: true },
+  { ...base, id: "cur-crypto", name: "Crypto balance 8dp", category: "Currency & money", description: "0.00000000 -> 0.12345678 BTC - every satoshi is a tick, given as an exact decimal string.", to: "0.12345678", duration: 2.5, format: "template", template: "{#,##0.00000000} BTC", counter: "ease", ease: "power2.out" },
+  { ...base, id: "cur-gbp", name: "GBP £ prefix", category: "Currency & money", description: "Pound sign before grouped pence - validates '£'.", to: 18250.75, duration: 2.5, format: "money", money: { code: "GBP" }, counter: "ease", ease: "power3.out", box: true },
+  { ...base, id: "cur-jpy", name: "JPY ¥, no minor unit", category: "Currency & money", description: "Yen has no decimals: ¥0 -> ¥1,250,000 in whole units.", to: 1250000, duration: 2.5, format: "money", money: { code: "JPY" }, counter: "ease", ease: "expo.out", box: true },
+  { ...base, id: "cur-inr", name: "INR ₹ prefix", category: "Currency & money", description: "Rupee sign with cents - validates '₹'.", to: 75499.5, duration: 2.5, format: "money", money: { code: "INR" }, counter: "ease", ease: "power2.out" },
+  { ...base, id: "cur-rub", name: "RUB ₽ suffix", category: "Currency & money", description: "Ruble sign after the number with a space - validates '₽' and the space advance.", to: 64000, duration: 2.5, format: "money", money: { code: "RUB" }, counter: "linear" },
+  { ...base, id: "cur-try", name: "TRY ₺ prefix", category: "Currency & money", description: "Lira sign before the number - validates '₺'.", to: 3275.25, duration: 2, format: "money", money: { code: "TRY" }, counter: "ease", ease: "power2.out" },
+  { ...base, id: "cur-brl", name: "BRL R$ prefix", category: "Currency & money", description: "Two-glyph mark 'R$' plus a space - validates 'R' next to '$'.", to: 9850.4, duration: 2.5, format: "money", money: { code: "BRL" }, counter: "ease", ease: "power3.out", box: true },
+  { ...base, id: "cur-btc", name: "BTC ticker, 8dp", category: "Currency & money", description: "Bitcoin with its 8-digit minor unit and a ' BTC' suffix.", to: "1.25000000", duration: 3, format: "money", money: { code: "BTC" }, counter: "ease", ease: "power2.out", fontSize: 72 },
+  { ...base, id: "cur-usdt", name: "USDT ticker suffix", category: "Currency & money", description: "Stablecoin balance printed with its code - validates U S D T.", to: 4820.13, duration: 2, format: "money", money: { code: "USDT" }, counter: "linear" },
+  { ...base, id: "cur-gbp-iso", name: "GBP as ISO code", category: "Currency & money", description: "'GBP 18,250.75' - the ISO code in place of the symbol, prefixed with a space.", to: 18250.75, duration: 2.5, format: "money", money: { code: "GBP", iso: true, space: true }, counter: "linear" },
 
   // ── Multipliers ─────────────────────────────────────────────────
   { ...base, id: "mult-x", name: "Multiplier x2.50", category: "Multipliers", description: "Decimal multiplier with 'x' suffix - validates the 'x' glyph.", to: 2.5, duration: 1, format: "multiplier", counter: "ease", ease: "back.out(1.7)", box: true, fontSize: 120 },
@@ -99,10 +132,22 @@ export const PRESETS: Preset[] = [
   { ...base, id: "big-win-suffix", name: "'WIN' rollup", category: "Big-win rollups", description: "Number + ' WIN' label - validates space + W I N glyphs.", to: 88888, duration: 2.8, format: "suffixWin", counter: "ease", ease: "power3.out", entrance: "fade", box: true, glow: true },
   { ...base, id: "big-topup", name: "Big win + extra winlines", category: "Big-win rollups", description: "Rolls 0 -> 100,000, then a second wave of winlines tops it up +65,000 with a scale punch (final 165,000).", to: 100000, topUp: 65000, topUpDelay: 0.6, duration: 3, format: "comma", counter: "ease", ease: "expo.out", entrance: "pop", fontSize: 120 },
   { ...base, id: "cur-topup", name: "Money top-up", category: "Big-win rollups", description: "Currency win $1,200.00 then extra winlines add $480.00 (final $1,680.00). Two-phase cents rollup.", to: 1200, topUp: 480, topUpDelay: 0.5, duration: 2, format: "currencySign", counter: "ease", ease: "power3.out", fontSize: 110 },
+  { ...base, id: "big-jackpot", name: "Progressive jackpot past 2^53", category: "Big-win rollups", description: "Rolls up to 98,765,432,109,876,543.21 - the cents stay exact where a JS number would round them away.", to: "98765432109876543.21", duration: 4, format: "currency", counter: "ease", ease: "expo.out", entrance: "pop", fontSize: 64 },
 
   // ── Formatting edge cases ───────────────────────────────────────
   { ...base, id: "edge-spaced", name: "Thin-space groups", category: "Formatting edge cases", description: "Spaces as separators - checks the space advance width.", to: 1234567, duration: 2.5, format: "spaced", counter: "linear" },
   { ...base, id: "edge-decimals", name: "Bare decimals", category: "Formatting edge cases", description: "Plain '.00' with no grouping.", to: 4096.0, duration: 1.5, format: "decimals2", counter: "linear" },
+  { ...base, id: "edge-template-pad", name: "Template: zero-padded", category: "Formatting edge cases", description: "Custom template {000000} - a fixed six-digit meter with leading zeros.", to: 98765, duration: 2, format: "template", template: "{000000}", counter: "linear" },
+  { ...base, id: "edge-template-eu", name: "Template: EU cents", category: "Formatting edge cases", description: "Custom template with '.' groups, ',' decimals and a 'EUR' suffix.", to: 23456.78, duration: 2.5, format: "template", template: "{#,##0.00;group=.;decimal=,} EUR", counter: "ease", ease: "power2.out" },
+  { ...base, id: "edge-template-trim", name: "Template: trimmed decimals", category: "Formatting edge cases", description: "Custom template {#,##0.##}x - decimals appear and vanish as they tick, so the width breathes.", to: 150.5, duration: 2, format: "template", template: "{#,##0.##}x", counter: "linear" },
+  { ...base, id: "edge-net", name: "Net balance through zero", category: "Formatting edge cases", description: "Ticks -5,000 -> +12,500 with explicit signs - the '+'/'-' glyph swaps at zero.", from: -5000, to: 12500, duration: 3, format: "comma", sign: "explicit", counter: "linear" },
+  { ...base, id: "edge-loss", name: "Loss with U+2212", category: "Formatting edge cases", description: "Money ticking up from a loss, -$2,500.00 -> $1,800.00, with the typographic minus (U+2212).", from: -2500, to: 1800, duration: 3, format: "currencySign", sign: "negative", minus: "\u2212", counter: "ease", ease: "power2.out", box: true },
+  { ...base, id: "edge-accounting", name: "Accounting parentheses", category: "Formatting edge cases", description: "Losses in parentheses, (1,250.00) -> 980.00 - validates '(' and ')'.", from: -1250, to: 980, duration: 2.5, format: "currency", sign: "accounting", counter: "linear" },
+  { ...base, id: "edge-delta", name: "Delta popup +1,250", category: "Formatting edge cases", description: "Gain popup with an explicit '+' from the first tick.", to: 1250, duration: 1, format: "comma", sign: "explicit", counter: "ease", ease: "power3.out", entrance: "pop" },
+  { ...base, id: "edge-odometer", name: "Odometer 0000125", category: "Formatting edge cases", description: "Seven zero-padded cells - the width never changes, so every digit must share one advance.", to: 125000, duration: 3, format: "odometer", odometer: { digits: 7, pad: "0" }, counter: "linear" },
+  { ...base, id: "edge-odometer-dim", name: "Odometer, dimmed zeros", category: "Formatting edge cases", description: "Zero-padded meter with the pad cells drawn faded, as slot meters show unused digits.", to: 98765, duration: 3, format: "odometer", odometer: { digits: 7, pad: "0" }, dimPadding: true, counter: "ease", ease: "power2.out" },
+  { ...base, id: "edge-odometer-blank", name: "Odometer ___125", category: "Formatting edge cases", description: "Placeholder '_' cells, faded - validates '_' and that it advances like a digit.", to: 125, duration: 2, format: "odometer", odometer: { digits: 6, pad: "_" }, dimPadding: true, counter: "linear" },
+  { ...base, id: "edge-odometer-space", name: "Odometer, space padded", category: "Formatting edge cases", description: "Right-aligned in space-padded cells - the space must advance exactly like a digit.", to: 4321, duration: 2, format: "odometer", odometer: { digits: 6, pad: " " }, counter: "linear" },
   { ...base, id: "edge-tight", name: "Tight tracking", category: "Formatting edge cases", description: "Negative letter-spacing (-8) - detects glyph overlap/collision.", to: 999999, duration: 2, format: "comma", counter: "linear", letterSpacing: -8 },
   { ...base, id: "edge-loose", name: "Loose tracking", category: "Formatting edge cases", description: "Wide letter-spacing (+24) - detects gaps and mono alignment.", to: 123456, duration: 2, format: "comma", counter: "linear", letterSpacing: 24 },
   { ...base, id: "edge-small", name: "Tiny 24px", category: "Formatting edge cases", description: "Small font size - checks bitmap sharpness / min legibility.", to: 654321, duration: 2, format: "comma", counter: "linear", fontSize: 24 },
@@ -118,6 +163,7 @@ export const PRESETS: Preset[] = [
 
   // ── Stress & validation ─────────────────────────────────────────
   { ...base, id: "stress-max", name: "Max 7,000,000×", category: "Stress & validation", description: "Long value rolling fast - worst case for per-frame rebuild.", to: 7000000, duration: 1.2, format: "comma", counter: "linear", fontSize: 90 },
+  { ...base, id: "stress-bigint", name: "BigInt 2^64 - 1", category: "Stress & validation", description: "Counts to 18,446,744,073,709,551,615 from a BigInt - every digit must land exactly.", to: 18446744073709551615n, duration: 2, format: "comma", counter: "linear", fontSize: 56 },
   { ...base, id: "stress-elastic", name: "Elastic settle", category: "Stress & validation", description: "Overshoots the target and springs back (elastic ease).", to: 65535, duration: 2.2, format: "comma", counter: "elastic", ease: "elastic.out(1,0.5)", box: true },
   { ...base, id: "stress-repeat", name: "Rapid restart", category: "Stress & validation", description: "Short 0.3s tick - spam Play to test re-entrancy / kill safety.", to: 999, duration: 0.3, format: "int", counter: "linear" },
   { ...base, id: "stress-monoprobe", name: "Mono-width probe", category: "Stress & validation", description: "Cycles 000000 -> 111111 ... values with equal digit count; a non-mono font will shimmy horizontally.", from: 111111, to: 888888, duration: 3, format: "int", counter: "linear", fontSize: 100 },
@@ -0,0 +1,253 @@
+import { CURRENCY_LETTERS, CURRENCY_SYMBOLS } from "./currencies";
+import type { FontReport, Severity } from "./fontReport";
+
+/**
+ * Validation rules engine. Each rule reads one part of a FontReport, has an
+ * optional threshold, a severity and an on/off switch. A profile is one set of
+ * those settings plus the separator/letter glyphs to require; profiles live in
+ * localStorage so each game can keep its own bar. The report's score and
+ * verdict come from the enabled rules only.
+ */
+
+export type RuleId =
+  | "digits"
+  | "mono"
+  | "kerning"
+  | "baseline"
+  | "separatorBand"
+  | "separators"
+  | "letters"
+  | "pages"
+  | "descriptor";
+
+export interface RuleDef {
+  id: RuleId;
+  label: string;
+  description: string;
+  /** what the threshold measures; rules without one are plain pass/fail. */
+  unit?: "px";
+}
+
+export interface RuleSetting {
+  enabled: boolean;
+  severity: Severity;
+  /** only read by rules with a unit. */
+  threshold: number;
+}
+
+export interface RuleProfile {
+  id: string;
+  name: string;
+  rules: Record<RuleId, RuleSetting>;
+  /** separator/symbol glyphs the font must have. */
+  separators: string[];
+  /** letter glyphs the font should have. */
+  letters: string[];
+}
+
+export interface RuleOutcome {
+  id: RuleId;
+  label: string;
+  severity: Severity;
+  passed: boolean;
+  detail: string;
+}
+
+export type Verdict = "pass" | "warn" | "fail";
+
+export const RULES: RuleDef[] = [
+  { id: "digits", label: "Digits 0-9 present", description: "Every digit exists - a counter cannot render without them." },
+  { id: "mono", label: "Mono digit advances", description: "Largest allowed spread between digit advances.", unit: "px" },
+  { id: "kerning", label: "Uniform digit kerning", description: "Largest allowed spread of kerning within a digit/separator context.", unit: "px" },
+  { id: "baseline", label: "Shared digit baseline", description: "Largest allowed spread between digit bottoms.", unit: "px" },
+  { id: "separatorBand", label: "Separators on the baseline", description: "Separators sit in the vertical band expected of them." },
+  { id: "separators", label: "Separators present", description: "Every separator/symbol glyph in the profile exists." },
+  { id: "letters", label: "Letters present", description: "Every letter glyph in the profile exists." },
+  { id: "pages", label: "Pages resolved", description: "Every page has an exact image match and no image goes unused." },
+  { id: "descriptor", label: "Descriptor lint clean", description: "No structural problems in the descriptor." },
+];
+
+const setting = (severity: Severity, threshold = 0, enabled = true): RuleSetting => ({ enabled, severity, threshold });
+
+const DEFAULT_SEPARATORS = [",", ".", "x", "$", "€", " "];
+const DEFAULT_LETTERS = ["W", "I", "N", "K", "M", "B"];
+
+/** The bench's long-standing behaviour - sub-pixel tolerance everywhere. */
+export const DEFAULT_PROFILE: RuleProfile = {
+  id: "default",
+  name: "Default",
+  rules: {
+    digits: setting("error"),
+    mono: setting("warn", 0.5),
+    kerning: setting("warn", 0.5),
+    baseline: setting("warn", 1),
+    separatorBand: setting("warn"),
+    separators: setting("warn"),
+    letters: setting("info"),
+    pages: setting("warn"),
+    descriptor: setting("warn"),
+  },
+  separators: DEFAULT_SEPARATORS,
+  letters: DEFAULT_LETTERS,
+};
+
+export const BUILTIN_PROFILES: RuleProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: "strict-cash",
+    name: "Strict cash game",
+    rules: {
+      digits: setting("error"),
+      mono: setting("error", 0),
+      kerning: setting("error", 0),
+      baseline: setting("error", 0),
+      separatorBand: setting("error"),
+      separators: setting("error"),
+      letters: setting("warn"),
+      pages: setting("error"),
+      descriptor: setting("error"),
+    },
+    separators: [",", ".", "$", "€", " "],
+    letters: DEFAULT_LETTERS,
+  },
+  {
+    id: "social-casino",
+    name: "Social casino",
+    rules: {
+      digits: setting("error"),
+      mono: setting("warn", 2),
+      kerning: setting("warn", 1),
+      baseline: setting("warn", 2),
+      separatorBand: setting("info"),
+      separators: setting("warn"),
+      letters: setting("info", 0, false),
+      pages: setting("warn"),
+      descriptor: setting("info"),
+    },
+    separators: [",", "."],
+    letters: ["K", "M", "B"],
+  },
+  {
+    id: "multi-currency",
+    name: "Multi-currency",
+    rules: {
+      digits: setting("error"),
+      mono: setting("warn", 0.5),
+      kerning: setting("warn", 0.5),
+      baseline: setting("warn", 1),
+      separatorBand: setting("warn"),
+      separators: setting("error"),
+      letters: setting("warn"),
+      pages: setting("warn"),
+      descriptor: setting("warn"),
+    },
+    // every currency sign and ISO-code letter the money format can print
+    separators: [",", ".", " ", ...CURRENCY_SYMBOLS],
+    letters: CURRENCY_LETTERS,
+  },
+];
+
+const PROFILES_KEY = "bfb-rule-profiles";
+const ACTIVE_KEY = "bfb-rule-profile";
+
+function clone(p: RuleProfile): RuleProfile {
+  return JSON.parse(JSON.stringify(p));
+}
+
+/** Built-ins (with any saved edits) followed by user-made profiles. */
+export function loadProfiles(): RuleProfile[] {
+  let saved: RuleProfile[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? "[]");
+  } catch {
+    saved = [];
+  }
+  const byId = new Map(saved.map((p) => [p.id, p] as const));
+  const merge = (base: RuleProfile, p?: RuleProfile): RuleProfile =>
+    p ? { ...clone(base), ...p, rules: { ...clone(base).rules, ...p.rules } } : clone(base);
+  const builtins = BUILTIN_PROFILES.map((b) => merge(b, byId.get(b.id)));
+  const custom = saved
+    .filter((p) => !BUILTIN_PROFILES.some((b) => b.id === p.id))
+    .map((p) => merge(DEFAULT_PROFILE, p));
+  return [...builtins, ...custom];
+}
+
+export function saveProfiles(profiles: RuleProfile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_KEY) ?? DEFAULT_PROFILE.id;
+}
+
+export function saveActiveProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+export function isBuiltinProfile(id: string): boolean {
+  return BUILTIN_PROFILES.some((b) => b.id === id);
+}
+
+/** The untouched built-in a profile id started from, if any. */
+export function builtinDefaults(id: string): RuleProfile | undefined {
+  const b = BUILTIN_PROFILES.find((p) => p.id === id);
+  return b && clone(b);
+}
+
+const list = (chars: string[]) => chars.map((c) => (c === " " ? "SP" : `"${c}"`)).join(", ");
+
+function evaluate(id: RuleId, report: FontReport, s: RuleSetting): { passed: boolean; detail: string } {
+  switch (id) {
+    case "digits":
+      return report.canTick
+        ? { passed: true, detail: "all ten digits present" }
+        : { passed: false, detail: `missing ${list(report.missingDigits)}` };
+    case "mono":
+      return { passed: report.jump.spread <= s.threshold, detail: `advance spread ${report.jump.spread}px` };
+    case "kerning":
+      return { passed: report.jump.kerningSpread <= s.threshold, detail: `kerning spread ${report.jump.kerningSpread}px` };
+    case "baseline":
+      return { passed: report.vertical.baselineSpread <= s.threshold, detail: `baseline spread ${report.vertical.baselineSpread}px` };
+    case "separatorBand": {
+      const off = report.vertical.outOfBand.map((o) => o.char);
+      return { passed: off.length === 0, detail: off.length ? `off band: ${list(off)}` : "all in band" };
+    }
+    case "separators":
+    case "letters": {
+      const checks = id === "separators" ? report.separators : report.letters;
+      const missing = checks.filter((g) => !g.present).map((g) => g.char);
+      return { passed: missing.length === 0, detail: missing.length ? `missing ${list(missing)}` : `${checks.length} present` };
+    }
+    case "pages": {
+      const bad = report.pages.filter((f) => f.severity !== "info").length;
+      return { passed: bad === 0, detail: bad ? `${bad} page issue(s)` : "all pages matched" };
+    }
+    case "descriptor": {
+      const bad = report.descriptor.length;
+      return { passed: bad === 0, detail: bad ? `${bad} lint finding(s)` : "clean" };
+    }
+  }
+}
+
+/** Score lost per failed rule, by severity. */
+const PENALTY: Record<Severity, number> = { error: 40, warn: 15, info: 3 };
+
+export function evaluateRules(
+  report: FontReport,
+  profile: RuleProfile
+): { rules: RuleOutcome[]; score: number; verdict: Verdict } {
+  const rules: RuleOutcome[] = [];
+  for (const def of RULES) {
+    const s = profile.rules[def.id];
+    if (!s?.enabled) continue;
+    rules.push({ id: def.id, label: def.label, severity: s.severity, ...evaluate(def.id, report, s) });
+  }
+  const failed = rules.filter((r) => !r.passed);
+  const score = Math.max(0, 100 - failed.reduce((n, r) => n + PENALTY[r.severity], 0));
+  const verdict: Verdict = failed.some((r) => r.severity === "error")
+    ? "fail"
+    : failed.some((r) => r.severity === "warn")
+      ? "warn"
+      : "pass";
+  return { rules, score, verdict };
+}
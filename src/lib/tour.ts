@@ -24,7 +24,7 @@ export function runTour(hooks: TourHooks): void {
         popover: {
           title: "Bitmap Font Benchmark",
           description:
-            "A test bench for slot-style bitmap fonts. There are no bundled fonts - drag-drop your own .fnt / .xml + its page image (.png/.webp) anywhere to load one. Then drive a win-box preset and read the validation. A short guided tour follows.",
+            "A test bench for slot-style bitmap fonts. There are no bundled fonts - drag-drop your own .fnt / .xml / .json + its page image (.png/.webp), or a .zip of them, anywhere to load one. Then drive a win-box preset and read the validation. A short guided tour follows.",
         },
       },
       {
@@ -1,141 +1,116 @@
-import type { BitmapFont } from "pixi.js";
+import { Texture, type BitmapFont } from "pixi.js";
 import { getInstalledFont } from "./fonts";
+import { findFontEntry } from "./fontRegistry";
+import { lintDescriptor, type PageSize } from "./descriptorLint";
+import { simulateLayoutShift, type ShiftTimeline } from "./layoutSim";
+import type { Preset } from "./presets";
+import { findCollisions, type CollisionResult } from "./collision";
+import { presetOutput } from "./glyphSet";
+import { analyzeBleed, type BleedResult } from "./atlasBleed";
+import { DEFAULT_ODOMETER, checkPad, type PadResult } from "./odometer";
+import { DEFAULT_PROFILE, type RuleProfile } from "./rules";
+import {
+  buildReport,
+  charsMissing,
+  emptyReport,
+  pageFindings,
+  type FontMetrics,
+  type FontReport,
+} from "./fontReport";
 
-export interface GlyphCheck {
-  char: string;
-  label: string;
-  present: boolean;
-  advance: number | null;
-  width: number | null;
-}
+export type {
+  Finding,
+  FontReport,
+  GlyphBox,
+  GlyphCheck,
+  JumpResult,
+  Severity,
+  VerticalResult,
+} from "./fontReport";
 
-export interface JumpResult {
-  /** true when every present digit shares one advance width. */
-  isMono: boolean;
-  /** true when digits differ enough in width that a tick-up will jitter. */
-  willJump: boolean;
-  /** worst-case horizontal shift per digit change, in font px. */
-  jumpPx: number;
-  advances: { digit: string; advance: number; present: boolean }[];
-  minAdvance: number;
-  maxAdvance: number;
-  spread: number;
-  /** the two digits responsible for the widest gap, e.g. "1 vs 0". */
-  widestPair: string | null;
+/** An installed font's metrics; glyph sizes come from the char textures. */
+function metricsOf(font: BitmapFont): FontMetrics {
+  const chars: FontMetrics["chars"] = {};
+  for (const [ch, c] of Object.entries(font.chars)) {
+    chars[ch] = {
+      xOffset: c.xOffset,
+      yOffset: c.yOffset,
+      xAdvance: c.xAdvance,
+      width: c.texture?.width ?? 0,
+      height: c.texture?.height ?? 0,
+      kerning: c.kerning,
+    };
+  }
+  return { chars, lineHeight: font.lineHeight, size: font.baseMeasurementFontSize };
 }
 
-export interface FontReport {
-  fontFamily: string;
-  found: boolean;
-  glyphCount: number;
-  lineHeight: number;
-  /** every digit 0-9 present - required to render a counter at all. */
-  canTick: boolean;
-  missingDigits: string[];
-  digits: GlyphCheck[];
-  separators: GlyphCheck[];
-  letters: GlyphCheck[];
-  jump: JumpResult;
+/** Real pixel size of each loaded page; null where the page has no image. */
+function pageSizes(font: BitmapFont): (PageSize | null)[] {
+  return font.pages.map(({ texture }) =>
+    texture === Texture.EMPTY
+      ? null
+      : { width: texture.source.pixelWidth, height: texture.source.pixelHeight }
+  );
 }
 
-/** Characters that slot number displays commonly rely on. */
-const SEPARATORS: { char: string; label: string }[] = [
-  { char: ",", label: "Comma (thousands)" },
-  { char: ".", label: "Period (decimal)" },
-  { char: "x", label: "Lowercase x (multiplier)" },
-  { char: "$", label: "Dollar sign" },
-  { char: "€", label: "Euro sign" },
-  { char: " ", label: "Space" },
-];
-
-const LETTERS: { char: string; label: string }[] = [
-  ..."WIN".split("").map((c) => ({ char: c, label: `'${c}' (WIN)` })),
-  ..."KMB".split("").map((c) => ({ char: c, label: `'${c}' (abbrev)` })),
-];
+export function analyzeFont(fontFamily: string, profile: RuleProfile = DEFAULT_PROFILE): FontReport {
+  const font = getInstalledFont(fontFamily);
+  if (!font) return emptyReport(fontFamily, profile);
 
-function checkChar(font: BitmapFont, char: string, label: string): GlyphCheck {
-  const data = font.chars[char];
-  return {
-    char,
-    label,
-    present: !!data,
-    advance: data ? Math.round(data.xAdvance * 100) / 100 : null,
-    width: data?.texture ? Math.round(data.texture.width * 100) / 100 : null,
-  };
+  const entry = findFontEntry(fontFamily);
+  return buildReport(
+    fontFamily,
+    metricsOf(font),
+    {
+      pages: entry ? pageFindings(entry.pages, entry.unusedImages) : [],
+      descriptor: entry ? lintDescriptor(entry.data, entry.facts, pageSizes(font)) : [],
+    },
+    profile
+  );
 }
 
-export function analyzeFont(fontFamily: string): FontReport {
+/** Which of a preset's required chars are missing from the font. */
+export function missingChars(fontFamily: string, chars: string[]): string[] {
   const font = getInstalledFont(fontFamily);
-  if (!font) {
-    return {
-      fontFamily,
-      found: false,
-      glyphCount: 0,
-      lineHeight: 0,
-      canTick: false,
-      missingDigits: "0123456789".split(""),
-      digits: [],
-      separators: [],
-      letters: [],
-      jump: {
-        isMono: false,
-        willJump: false,
-        jumpPx: 0,
-        advances: [],
-        minAdvance: 0,
-        maxAdvance: 0,
-        spread: 0,
-        widestPair: null,
-      },
-    };
-  }
-
-  const digits: GlyphCheck[] = [];
-  for (let i = 0; i <= 9; i++) {
-    const c = String(i);
-    digits.push(checkChar(font, c, `Digit ${c}`));
-  }
-
-  const advances = digits.map((d) => ({
-    digit: d.char,
-    advance: d.advance ?? 0,
-    present: d.present,
-  }));
-  const present = advances.filter((a) => a.present);
-  const vals = present.map((a) => a.advance);
-  const minAdvance = vals.length ? Math.min(...vals) : 0;
-  const maxAdvance = vals.length ? Math.max(...vals) : 0;
-  const spread = Math.round((maxAdvance - minAdvance) * 100) / 100;
-  // sub-pixel tolerance - rasterised fonts can round by a fraction
-  const isMono = present.length > 1 && spread <= 0.5;
-  const willJump = present.length > 1 && spread > 0.5;
+  if (!font) return chars;
+  return charsMissing(metricsOf(font), chars);
+}
 
-  let widestPair: string | null = null;
-  if (willJump) {
-    const widest = present.reduce((a, b) => (b.advance > a.advance ? b : a));
-    const narrowest = present.reduce((a, b) => (b.advance < a.advance ? b : a));
-    widestPair = `'${narrowest.digit}' (${narrowest.advance}) -> '${widest.digit}' (${widest.advance})`;
-  }
+/** Replay a preset's count-up against the font and measure every frame's layout. */
+export function simulateShift(fontFamily: string, preset: Preset): ShiftTimeline | null {
+  const font = getInstalledFont(fontFamily);
+  if (!font) return null;
+  return simulateLayoutShift({ chars: font.chars, size: font.baseMeasurementFontSize }, preset);
+}
 
-  const missingDigits = digits.filter((d) => !d.present).map((d) => d.char);
+/** Ink-rect collisions between the glyph pairs the preset's run sets side by side. */
+export function collisionCheck(fontFamily: string, preset: Preset): CollisionResult | null {
+  const font = getInstalledFont(fontFamily);
+  if (!font) return null;
+  const metrics = metricsOf(font);
+  return findCollisions(
+    metrics.chars,
+    metrics.size,
+    presetOutput(preset).pairs,
+    preset.fontSize,
+    preset.letterSpacing
+  );
+}
 
-  return {
-    fontFamily,
-    found: true,
-    glyphCount: Object.keys(font.chars).length,
-    lineHeight: Math.round(font.lineHeight * 100) / 100,
-    canTick: missingDigits.length === 0,
-    missingDigits,
-    digits,
-    separators: SEPARATORS.map((s) => checkChar(font, s.char, s.label)),
-    letters: LETTERS.map((s) => checkChar(font, s.char, s.label)),
-    jump: { isMono, willJump, jumpPx: spread, advances, minAdvance, maxAdvance, spread, widestPair },
-  };
+/** Atlas padding against the texture bleed linear filtering causes at the preset's size. */
+export function bleedCheck(fontFamily: string, preset: Preset): BleedResult | null {
+  const font = getInstalledFont(fontFamily);
+  const entry = findFontEntry(fontFamily);
+  if (!font || !entry) return null;
+  return analyzeBleed(entry.data, pageSizes(font), preset.fontSize / font.baseMeasurementFontSize);
 }
 
-/** Which of a preset's required chars are missing from the font. */
-export function missingChars(fontFamily: string, chars: string[]): string[] {
+/**
+ * An odometer preset's pad glyph: present, and advancing like a digit within
+ * `tolerance` px (the profile's mono threshold)? Null for other formats.
+ */
+export function padCheck(fontFamily: string, preset: Preset, tolerance: number): PadResult | null {
   const font = getInstalledFont(fontFamily);
-  if (!font) return chars;
-  return chars.filter((c) => c !== " " && !font.chars[c]);
+  if (!font || preset.format !== "odometer") return null;
+  return checkPad(metricsOf(font), preset.odometer ?? DEFAULT_ODOMETER, preset.fontSize, tolerance);
 }
@@ -0,0 +1,66 @@
+import { unzip, type Unzipped } from "fflate";
+
+/** A file plus the path it had inside its archive (or just its name). */
+export interface SourceFile {
+  path: string;
+  file: File;
+}
+
+export const ZIP_RE = /\.zip$/i;
+
+/** Only what a bitmap font can be made of - skips readmes, previews etc. */
+const KEEP_RE = /\.(fnt|xml|json|png|jpe?g|webp)$/i;
+
+function unzipAsync(bytes: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) =>
+    unzip(
+      bytes,
+      {
+        filter: (f) =>
+          !f.name.endsWith("/") && !f.name.startsWith("__MACOSX/") && KEEP_RE.test(f.name),
+      },
+      (err, out) => (err ? reject(err) : resolve(out))
+    )
+  );
+}
+
+/** Unpack a dropped .zip in the browser into files keyed by their archive path. */
+export async function unpackZip(archive: File): Promise<SourceFile[]> {
+  let entries: Unzipped;
+  try {
+    entries = await unzipAsync(new Uint8Array(await archive.arrayBuffer()));
+  } catch (e) {
+    throw new Error(`Could not unpack ${archive.name}: ${(e as Error).message}`);
+  }
+  return Object.entries(entries).map(([path, data]) => {
+    const name = path.split("/").pop() || path;
+    return { path, file: new File([data as BlobPart], name) };
+  });
+}
+
+/** Expand any .zip among the dropped files; its entries live under the zip's own folder. */
+export async function expandArchives(files: SourceFile[]): Promise<SourceFile[]> {
+  const out: SourceFile[] = [];
+  for (const source of files) {
+    if (!ZIP_RE.test(source.path)) {
+      out.push(source);
+      continue;
+    }
+    const dir = source.path.split("/").slice(0, -1).join("/");
+    for (const entry of await unpackZip(source.file)) {
+      out.push(dir ? { ...entry, path: `${dir}/${entry.path}` } : entry);
+    }
+  }
+  return out;
+}
+
+/** Resolve a page path relative to the directory of the descriptor that lists it. */
+export function resolveRelative(fromPath: string, rel: string): string {
+  const parts = fromPath.split("/").slice(0, -1);
+  for (const seg of rel.replace(/\\/g, "/").split("/")) {
+    if (seg === "" || seg === ".") continue;
+    if (seg === "..") parts.pop();
+    else parts.push(seg);
+  }
+  return parts.join("/");
+}
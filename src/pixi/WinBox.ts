@@ -1,27 +1,55 @@
-import { BitmapText, Container, Graphics } from "pixi.js";
+import { BitmapFontManager, BitmapText, Container, Graphics } from "pixi.js";
 import { gsap } from "gsap";
 import type { Preset } from "@/lib/presets";
-import { formatValue } from "@/lib/formats";
+import { counterRange, counterValue, type CounterRange } from "@/lib/amount";
+import { formatValue, fractionDigits, paddingRange } from "@/lib/formats";
+import { getInstalledFont } from "@/lib/fonts";
 
 /**
  * A slot-style "win box": an optional rounded panel with a BitmapText value
  * inside, driven by GSAP for both the entrance animation and the count-up.
- * The panel is redrawn every frame to hug the (changing-width) text.
+ * The panel is redrawn every frame to hug the (changing-width) text. GSAP
+ * tweens only the eased progress of each phase; the value itself is
+ * interpolated in whole minor units (see amount.ts) so every digit is exact.
+ * An odometer's pad cells can be drawn faded: a second copy of the text at
+ * PAD_ALPHA shows only through a mask over those cells, and the main text is
+ * masked to everything else, so both keep the exact glyph layout.
  */
+
+/** alpha of an odometer's pad cells when Preset.dimPadding is on. */
+const PAD_ALPHA = 0.3;
+/** half-extent of the padding masks - far past any text the stage draws. */
+const MASK_REACH = 10000;
+
+interface GlyphQuad {
+  char: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export class WinBox {
   readonly view = new Container();
   private inner = new Container();
   private glow = new Graphics();
   private panel = new Graphics();
   private boundsBox = new Graphics();
+  private highlightBox = new Graphics();
+  private padMask = new Graphics();
+  private valueMask = new Graphics();
   private text: BitmapText;
+  private padText: BitmapText;
 
   private fontFamily = "";
   private preset: Preset | null = null;
-  private state = { value: 0 };
+  private range: CounterRange = counterRange({ from: 0, to: 0 }, 0);
+  /** eased progress of the base tick and of the top-up, 0-1 (overshoot allowed). */
+  private state = { base: 0, bump: 0 };
   private entranceTween: gsap.core.Tween | null = null;
   private counterTween: gsap.core.Timeline | null = null;
   private showBounds = false;
+  private highlight = new Set<string>();
 
   onValue: ((text: string) => void) | null = null;
   onStateChange: ((playing: boolean) => void) | null = null;
@@ -29,7 +57,20 @@ export class WinBox {
   constructor() {
     this.text = new BitmapText({ text: "0", style: { fontFamily: "", fontSize: 96, fill: 0xffffff } });
     this.text.anchor.set(0.5);
-    this.inner.addChild(this.glow, this.panel, this.text, this.boundsBox);
+    this.padText = new BitmapText({ text: "", style: this.text.style });
+    this.padText.anchor.set(0.5);
+    this.padText.alpha = PAD_ALPHA;
+    this.padText.visible = false;
+    this.inner.addChild(
+      this.glow,
+      this.panel,
+      this.padText,
+      this.text,
+      this.boundsBox,
+      this.highlightBox,
+      this.padMask,
+      this.valueMask
+    );
     this.view.addChild(this.inner);
   }
 
@@ -43,11 +84,18 @@ export class WinBox {
     this.drawDecorations();
   }
 
+  /** Outline every on-screen glyph whose char is in `chars` (empty clears). */
+  setHighlight(chars: string[]): void {
+    this.highlight = new Set(chars);
+    this.drawDecorations();
+  }
+
   /** Load a preset (does not start it). */
   load(preset: Preset): void {
     this.stop();
     this.preset = preset;
-    this.state.value = preset.from;
+    this.range = counterRange(preset, fractionDigits(preset.format, preset));
+    this.setProgress(0, 0);
     this.inner.alpha = 1;
     this.inner.scale.set(1);
     this.inner.position.set(0, 0);
@@ -59,7 +107,8 @@ export class WinBox {
     if (!this.preset) return;
     this.stop();
     const p = this.preset;
-    this.state.value = p.from;
+    this.range = counterRange(p, fractionDigits(p.format, p));
+    this.setProgress(0, 0);
     this.redrawText();
 
     const startCounter = () => this.runCounter();
@@ -92,10 +141,10 @@ export class WinBox {
 
   private runCounter(): void {
     const p = this.preset!;
-    const hasTopUp = !!p.topUp && p.topUp > 0;
+    const hasTopUp = this.range.topUp > 0n;
 
     if (p.counter === "instant" || p.duration <= 0) {
-      this.state.value = hasTopUp ? p.to + p.topUp! : p.to;
+      this.setProgress(1, 1);
       this.redrawText();
       this.onStateChange?.(false);
       return;
@@ -107,21 +156,21 @@ export class WinBox {
     const tl = gsap.timeline({
       onUpdate: () => this.redrawText(),
       onComplete: () => {
-        this.state.value = hasTopUp ? p.to + p.topUp! : p.to;
+        this.setProgress(1, 1);
         this.redrawText();
         this.onStateChange?.(false);
       },
     });
 
     // Phase 1: 0 -> the base win.
-    tl.to(this.state, { value: p.to, duration: p.duration, ease });
+    tl.to(this.state, { base: 1, duration: p.duration, ease });
 
     // Phase 2: extra winlines land and bump the total higher.
     if (hasTopUp) {
       const delay = p.topUpDelay ?? 0.5;
       const bumpDur = Math.max(0.4, p.duration * 0.45);
       tl.to(this.state, {
-        value: p.to + p.topUp!,
+        bump: 1,
         duration: bumpDur,
         ease: "back.out(1.4)",
         delay,
@@ -151,15 +200,21 @@ export class WinBox {
 
   reset(): void {
     this.stop();
-    if (this.preset) this.state.value = this.preset.from;
+    this.setProgress(0, 0);
     this.redrawText();
   }
 
+  private setProgress(base: number, bump: number): void {
+    this.state.base = base;
+    this.state.bump = bump;
+  }
+
   private redrawText(): void {
     const p = this.preset;
     // With no bitmap font loaded, render nothing (avoid Pixi's system-font
     // fallback that would otherwise draw a stray glyph).
-    const str = p && this.fontFamily ? formatValue(this.state.value, p.format) : "";
+    const value = counterValue(this.range, this.state.base, this.state.bump);
+    const str = p && this.fontFamily ? formatValue(value, p.format, p) : "";
     this.text.text = str;
     if (this.fontFamily) this.text.style.fontFamily = this.fontFamily;
     if (p) {
@@ -167,9 +222,37 @@ export class WinBox {
       this.text.style.letterSpacing = p.letterSpacing;
     }
     this.onValue?.(str);
+    this.drawPadding(value);
     this.drawDecorations();
   }
 
+  /** Fade an odometer's pad cells (Preset.dimPadding); off, the text draws unmasked. */
+  private drawPadding(value: string): void {
+    const p = this.preset;
+    const range = p?.dimPadding && this.text.text ? paddingRange(value, p.format, p) : null;
+    const quads = range ? this.glyphQuads() : [];
+    const start = range ? quads[range[0]] : null;
+    this.padMask.clear();
+    this.valueMask.clear();
+    if (!range || !start) {
+      this.text.mask = null;
+      this.padText.mask = null;
+      this.padText.visible = false;
+      return;
+    }
+    // cut between the pad's first glyph and the first real glyph after it
+    const end = quads[range[1]]?.x ?? MASK_REACH;
+    this.padText.text = this.text.text;
+    this.padText.visible = true;
+    this.padMask.rect(start.x, -MASK_REACH, end - start.x, 2 * MASK_REACH).fill(0xffffff);
+    this.valueMask
+      .rect(-MASK_REACH, -MASK_REACH, start.x + MASK_REACH, 2 * MASK_REACH)
+      .rect(end, -MASK_REACH, MASK_REACH - end, 2 * MASK_REACH)
+      .fill(0xffffff);
+    this.padText.mask = this.padMask;
+    this.text.mask = this.valueMask;
+  }
+
   private drawDecorations(): void {
     // The framing panel/glow was removed — the bitmap text renders bare on the
     // grid. Only the optional debug bounds box is drawn.
@@ -177,12 +260,55 @@ export class WinBox {
     this.panel.clear();
     this.glow.clear();
     this.boundsBox.clear();
+    this.highlightBox.clear();
 
     if (this.showBounds) {
       this.boundsBox
         .rect(b.x, b.y, b.width, b.height)
         .stroke({ width: 1, color: 0xff3b3b, alpha: 0.9 });
     }
+    if (this.highlight.size) this.drawHighlight();
+  }
+
+  /**
+   * Every laid-out glyph's quad in local px, in text order (glyphs the font
+   * lacks are skipped, as the layout does). Mirrors Pixi's bitmap text pipe:
+   * the layout is in font units, offset by the anchor and scaled to fontSize.
+   */
+  private glyphQuads(): GlyphQuad[] {
+    const font = getInstalledFont(this.fontFamily);
+    const str = this.text.text;
+    if (!font || !str) return [];
+    const style = this.text.style;
+    const layout = BitmapFontManager.getLayout(str, style);
+    const s = layout.scale;
+    const ox = -this.text.anchor.x * layout.width - style.padding;
+    const oy = -this.text.anchor.y * (layout.height + layout.offsetY) - style.padding;
+    // the pipe centres each line in lineHeight unless that would lift it above the baseline offset
+    const lineShift = (font.lineHeight - font.fontMetrics.fontSize) / 2;
+    const shift = lineShift < font.baseLineOffset ? 0 : lineShift;
+
+    const quads: GlyphQuad[] = [];
+    layout.lines.forEach((line, i) => {
+      const y = font.baseLineOffset + i * font.lineHeight + shift;
+      line.chars.forEach((ch, j) => {
+        const c = font.chars[ch];
+        if (!c) return;
+        const gx = ox + Math.round(line.charPositions[j] + c.xOffset);
+        const gy = oy + Math.round(y + c.yOffset);
+        const { width, height } = c.texture?.orig ?? { width: 0, height: 0 };
+        quads.push({ char: ch, x: gx * s, y: gy * s, width: width * s, height: height * s });
+      });
+    });
+    return quads;
+  }
+
+  /** Outline the highlighted glyphs' quads. */
+  private drawHighlight(): void {
+    for (const q of this.glyphQuads()) {
+      if (!this.highlight.has(q.char) || !q.width) continue;
+      this.highlightBox.rect(q.x, q.y, q.width, q.height).stroke({ width: 1, color: 0xffb020, alpha: 0.95 });
+    }
   }
 
   destroy(): void {
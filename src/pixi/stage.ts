@@ -1,17 +1,26 @@
 import { Application, Container } from "pixi.js";
 import { PixelGrid, STAGE_BG } from "./PixelGrid";
 import { WinBox } from "./WinBox";
+import type { Preset } from "@/lib/presets";
+
+/** How the A/B pair shares the stage; "off" shows only the main win box. */
+export type CompareLayout = "off" | "stacked" | "split";
 
 /**
  * Owns the PixiJS Application. Back-to-front layering: grid -> world(win box).
  * The win box sits at the world origin (screen centre) so it lands exactly on
- * the grid's axis cross, matching the spine-benchmark v4 stage.
+ * the grid's axis cross, matching the spine-benchmark v4 stage. In A/B mode a
+ * second win box with another font shares the stage, above/below or beside
+ * the first; both run the same preset and are started in the same tick, so
+ * their tweens share GSAP's clock frame for frame.
  */
 export class Stage {
   readonly app = new Application();
   readonly grid = new PixelGrid();
   readonly winBox = new WinBox();
+  readonly winBoxB = new WinBox();
   private world = new Container();
+  private compare: CompareLayout = "off";
   private ready = false;
 
   async init(canvas: HTMLCanvasElement, parent: HTMLElement): Promise<void> {
@@ -26,7 +35,8 @@ export class Stage {
     });
 
     this.app.stage.addChild(this.grid.layer);
-    this.world.addChild(this.winBox.view);
+    this.winBoxB.view.visible = false;
+    this.world.addChild(this.winBox.view, this.winBoxB.view);
     this.app.stage.addChild(this.world);
 
     this.app.renderer.on("resize", () => this.layout());
@@ -34,15 +44,62 @@ export class Stage {
     this.ready = true;
   }
 
+  /** The win boxes currently on stage (A, plus B in compare mode). */
+  get boxes(): WinBox[] {
+    return this.compare === "off" ? [this.winBox] : [this.winBox, this.winBoxB];
+  }
+
+  setCompare(layout: CompareLayout): void {
+    this.compare = layout;
+    this.winBoxB.view.visible = layout !== "off";
+    if (layout === "off") this.winBoxB.stop();
+    if (this.ready) this.layout();
+  }
+
+  /** Both boxes always hold the preset, so B is ready the moment it is shown. */
+  load(preset: Preset): void {
+    this.winBox.load(preset);
+    this.winBoxB.load(preset);
+  }
+
+  play(): void {
+    for (const box of this.boxes) box.play();
+  }
+
+  stop(): void {
+    for (const box of this.boxes) box.stop();
+  }
+
+  reset(): void {
+    this.winBox.reset();
+    this.winBoxB.reset();
+  }
+
+  setShowBounds(v: boolean): void {
+    this.winBox.setShowBounds(v);
+    this.winBoxB.setShowBounds(v);
+  }
+
+  /** Outline these chars on box A (B has its own atlas, so its offenders differ). */
+  setHighlight(chars: string[]): void {
+    this.winBox.setHighlight(chars);
+  }
+
   private layout(): void {
     const { width, height } = this.app.screen;
     this.grid.draw(width, height);
     this.world.position.set(Math.floor(width / 2), Math.floor(height / 2));
+    // A/B halves are centred on the grid's quarter lines
+    const dx = this.compare === "split" ? Math.floor(width / 4) : 0;
+    const dy = this.compare === "stacked" ? Math.floor(height / 4) : 0;
+    this.winBox.view.position.set(-dx, -dy);
+    this.winBoxB.view.position.set(dx, dy);
   }
 
   destroy(): void {
     if (!this.ready) return;
     this.winBox.destroy();
+    this.winBoxB.destroy();
     this.app.destroy(true, { children: true });
   }
 }